@@ -9,6 +9,10 @@ import productsRouter from "./routes/products";
 import authenticationRouter from "./routes/auth";
 import cartRouter from "./routes/cart.routes";
 import orderRouter from "./routes/order.routes";
+import apiKeyRouter from "./routes/apiKey.routes";
+import categoryRouter from "./routes/category.routes";
+import reviewRouter from "./routes/review.routes";
+import wishlistRouter from "./routes/wishlist.routes";
 
 const app = express();
 
@@ -16,8 +20,8 @@ app.use(morgan("dev"));
 app.use(express.json());
 app.use(logger);
 
-// Serve static files from uploads directory
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
+// Serve static files from uploads directory (also where the local storage driver keeps images)
+app.use('/uploads', express.static(process.env.LOCAL_STORAGE_DIR || path.join(__dirname, '../uploads')));
 
 app.get("/", (req, res) => {
   return res.send("Welcome to my app!");
@@ -41,6 +45,10 @@ apiV1.use("/products", productsRouter);
 apiV1.use("/auth", authenticationRouter);
 apiV1.use("/cart", cartRouter);
 apiV1.use("/orders", orderRouter);
+apiV1.use("/api-keys", apiKeyRouter);
+apiV1.use("/categories", categoryRouter);
+apiV1.use("/reviews", reviewRouter);
+apiV1.use("/wishlists", wishlistRouter);
 
 app.use("/api/v1", apiV1);
 
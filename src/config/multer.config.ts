@@ -68,3 +68,56 @@ export const upload = multer({
 });
 
 
+// Step 5: A stricter instance for product images
+// Only formats we can resize (thumbnails, medium and large sizes are made from them)
+const imageFileFilter = (
+  req: any,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const allowedTypes = /jpeg|jpg|png|gif|webp/;
+
+  const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
+  const mimetype = /^image\//.test(file.mimetype) && allowedTypes.test(file.mimetype);
+
+  if (extname && mimetype) {
+    cb(null, true);
+  } else {
+    cb(new Error("Invalid file type. Only JPEG, PNG, GIF and WEBP images are allowed."));
+  }
+};
+
+export const imageUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: imageFileFilter,
+});
+
+
+// Step 6: A separate instance for CSV imports
+// Kept in memory (no file on disk to clean up) since we parse it right away
+const csvFileFilter = (
+  req: any,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const isCsv =
+    path.extname(file.originalname).toLowerCase() === ".csv" &&
+    /text\/csv|application\/vnd\.ms-excel|text\/plain/.test(file.mimetype);
+
+  if (isCsv) {
+    cb(null, true);
+  } else {
+    cb(new Error("Invalid file type. Only CSV files are allowed."));
+  }
+};
+
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB is plenty for a few thousand products
+  },
+  fileFilter: csvFileFilter,
+});
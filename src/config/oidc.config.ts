@@ -0,0 +1,41 @@
+// src/config/oidc.config.ts
+
+// One OpenID Connect provider we allow "Sign in with ..." for.
+// Endpoints are discovered from `${issuer}/.well-known/openid-configuration`,
+// so any compliant issuer works (Google, Microsoft, Auth0, Keycloak, a local mock...).
+export interface OidcProviderConfig {
+  name: string; // Used in the URL: /auth/oidc/:provider/...
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Omit for public clients (PKCE only)
+  redirectUri: string; // Frontend page that receives ?code&state and posts them back to us
+  scopes?: string[];
+}
+
+// OIDC_PROVIDERS is a JSON array, e.g.
+// [{"name":"google","issuer":"https://accounts.google.com","clientId":"...","clientSecret":"...","redirectUri":"https://shop.example.com/auth/callback/google"}]
+const loadProviders = (): OidcProviderConfig[] => {
+  if (!process.env.OIDC_PROVIDERS) {
+    return [];
+  }
+
+  try {
+    const providers = JSON.parse(process.env.OIDC_PROVIDERS);
+    return Array.isArray(providers) ? providers : [];
+  } catch (error) {
+    console.error("Invalid OIDC_PROVIDERS configuration:", error);
+    return [];
+  }
+};
+
+let providers = loadProviders();
+
+export const getOidcProvider = (name: string) =>
+  providers.find((provider) => provider.name === name);
+
+export const getOidcProviderNames = () => providers.map((provider) => provider.name);
+
+// Replace the configured providers (e.g. to point tests at a mock issuer)
+export const setOidcProviders = (newProviders: OidcProviderConfig[]) => {
+  providers = newProviders;
+};
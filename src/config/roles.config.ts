@@ -0,0 +1,77 @@
+// src/config/roles.config.ts
+
+// Roles a user account can have
+export const ROLES = ["customer", "staff", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Every permission the API checks for
+export const PERMISSIONS = [
+  "products:create",
+  "products:update",
+  "products:delete",
+  "inventory:manage",
+  "categories:manage",
+  "reviews:moderate",
+  "orders:read_all",
+  "orders:update_status",
+  "users:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// What an API key can be limited to. Permission scopes only work if the key's
+// owner also holds that permission; "orders:read"/"orders:write" cover the
+// owner's own orders. Public catalog reads need no key at all.
+// Review moderation and user management are left out on purpose: they are
+// decisions for a person logged in, not for an integration.
+export const API_KEY_SCOPES = [
+  "products:create",
+  "products:update",
+  "products:delete",
+  "inventory:manage",
+  "categories:manage",
+  "orders:read",
+  "orders:write",
+  "orders:read_all",
+  "orders:update_status",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// What each role is allowed to do out of the box.
+// Extra permissions can still be granted per user through `user.permissions`.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  customer: [],
+  staff: [
+    "products:create",
+    "products:update",
+    "orders:read_all",
+    "orders:update_status",
+  ],
+  admin: PERMISSIONS,
+};
+
+// Check whether a user (role + individually granted permissions) holds a permission
+export const hasPermission = (
+  user: { role?: string; permissions?: string[] },
+  permission: Permission
+): boolean => {
+  const rolePermissions = ROLE_PERMISSIONS[user.role as Role] || [];
+  return (
+    rolePermissions.includes(permission) ||
+    (user.permissions || []).includes(permission)
+  );
+};
+
+// Roles that must have two-factor authentication enabled before they get a session.
+// Comma separated, e.g. TWO_FACTOR_REQUIRED_ROLES=admin,staff
+export const TWO_FACTOR_REQUIRED_ROLES: Role[] = (
+  process.env.TWO_FACTOR_REQUIRED_ROLES ?? "admin"
+)
+  .split(",")
+  .map((role) => role.trim())
+  .filter((role): role is Role => (ROLES as readonly string[]).includes(role));
+
+export const isTwoFactorRequired = (role?: string) =>
+  TWO_FACTOR_REQUIRED_ROLES.includes(role as Role);
@@ -42,6 +42,12 @@ const options: swaggerJsdoc.Options = {
           bearerFormat: "JWT",
           description: "Enter your JWT token in format: Bearer <token>",
         },
+        apiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "Personal API key (sk_...) created at /api/v1/api-keys",
+        },
       },
     },
   },
@@ -0,0 +1,199 @@
+import { Response } from 'express';
+import { ApiKey } from '../models/apiKey.model';
+import { AuthRequest } from '../middlewares/authenticate';
+import { generateApiKey } from '../service/apiKey.service';
+import {
+  API_KEY_SCOPES,
+  PERMISSIONS,
+  Permission,
+  hasPermission
+} from '../config/roles.config';
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   get:
+ *     summary: List your API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully (the secret key itself is never returned)
+ */
+export const getApiKeys = async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKeys = await ApiKey.find({ user: req.user?.id })
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: apiKeys
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The key is only shown in this response. Send it as `X-API-Key` or `Authorization Bearer`.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Warehouse sync
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [products:create, products:update, products:delete, inventory:manage, categories:manage, orders:read, orders:write, orders:read_all, orders:update_status]
+ *               expiresInDays:
+ *                 type: number
+ *                 example: 90
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Invalid name, scopes or expiry
+ *       403:
+ *         description: Requested a scope you don't have permission for
+ */
+export const createApiKey = async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, scopes, expiresInDays } = req.body;
+
+    if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name and at least one scope are required'
+      });
+    }
+
+    const invalidScopes = scopes.filter((scope: any) => !API_KEY_SCOPES.includes(scope));
+    if (invalidScopes.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid scopes: ${invalidScopes.join(', ')}. Allowed scopes: ${API_KEY_SCOPES.join(', ')}`
+      });
+    }
+
+    // A key can never do more than its owner
+    const deniedScopes = scopes.filter((scope: any) =>
+      PERMISSIONS.includes(scope) && !hasPermission(req.user, scope as Permission)
+    );
+    if (deniedScopes.length > 0) {
+      return res.status(403).json({
+        success: false,
+        message: `You don't have permission to grant: ${deniedScopes.join(', ')}`
+      });
+    }
+
+    if (expiresInDays !== undefined && !(Number(expiresInDays) > 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'expiresInDays must be a positive number'
+      });
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await ApiKey.create({
+      user: req.user?.id,
+      name,
+      prefix,
+      keyHash,
+      scopes: [...new Set(scopes)],
+      ...(expiresInDays !== undefined && {
+        expiresAt: new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000)
+      })
+    });
+
+    const { keyHash: _, ...apiKeyData } = apiKey.toObject();
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created successfully. Copy it now, it will not be shown again',
+      data: { ...apiKeyData, key }
+    });
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
+ */
+export const revokeApiKey = async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKeyId = req.params.id as string;
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: apiKeyId, user: req.user?.id, revokedAt: { $exists: false } },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!apiKey) {
+      return res.status(404).json({
+        success: false,
+        message: 'API key not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully',
+      data: apiKey
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
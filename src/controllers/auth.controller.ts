@@ -1,18 +1,66 @@
 import bcrypt from "bcryptjs";
 import express, { Request, Response } from "express";
-import { User } from "../models/user.model";
-import { signToken } from "../utils/jwt.helper";
+import type { HydratedDocument } from "mongoose";
+import { User, IUser, EDITABLE_PROFILE_FIELDS } from "../models/user.model";
 import { AuthRequest } from "../middlewares/authenticate";
-import { sendWelcomeEmail } from "../service/email.service";
+import {
+  sendWelcomeEmail,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  sendAccountLockedEmail,
+  sendEmailChangeEmail,
+} from "../service/email.service";
+import { generateToken, hashToken } from "../utils/token.helper";
+import { signChallengeToken, verifyChallengeToken } from "../utils/jwt.helper";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+} from "../utils/totp.helper";
+import { isTwoFactorRequired } from "../config/roles.config";
+import { getOidcProvider, getOidcProviderNames } from "../config/oidc.config";
+import {
+  createAuthorizationUrl,
+  completeAuthorization,
+} from "../service/oidc.service";
+import {
+  issueTokens,
+  rotateRefreshToken,
+  revokeFamily,
+  revokeAllUserTokens,
+} from "../service/token.service";
+import {
+  checkLoginAllowed,
+  registerLoginFailure,
+  registerLoginSuccess,
+} from "../service/loginProtection.service";
 
 // Constants for better maintainability
 const SALT_ROUNDS = parseInt(process.env.SALT_ROUNDS || "12"); // Higher security than default 10
+const PASSWORD_RESET_EXPIRES_MINUTES = parseInt(
+  process.env.PASSWORD_RESET_EXPIRES_MINUTES || "15"
+);
+const EMAIL_VERIFICATION_EXPIRES_HOURS = parseInt(
+  process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || "24"
+);
+const EMAIL_VERIFICATION_RESEND_SECONDS = parseInt(
+  process.env.EMAIL_VERIFICATION_RESEND_SECONDS || "60"
+); // Minimum wait between verification emails
+const EMAIL_CHANGE_EXPIRES_HOURS = parseInt(
+  process.env.EMAIL_CHANGE_EXPIRES_HOURS || "24"
+);
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "Your App"; // Name shown in authenticator apps
+const RECOVERY_CODE_COUNT = 10;
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000"; // Frontend that hosts the reset/verify pages
 const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   CONFLICT: 409,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_ERROR: 500,
 } as const;
 
@@ -28,6 +76,20 @@ const validateRequiredFields = (
   };
 };
 
+// Accounts from social login prove who they are with a password once they set one
+// through the password reset flow (a session alone isn't enough to change credentials)
+const NO_PASSWORD_MESSAGE =
+  "Your account has no password yet. Set one with the forgot password link, then try again.";
+
+// Compare a password with the stored hash. Accounts created through social
+// login have no password, so nothing matches until they set one.
+const verifyPassword = async (password: unknown, hash?: string) => {
+  if (!hash || typeof password !== "string" || !password) {
+    return false;
+  }
+  return bcrypt.compare(password, hash);
+};
+
 // Reusable error response function
 const sendErrorResponse = (
   res: Response,
@@ -42,6 +104,181 @@ const sendErrorResponse = (
   });
 };
 
+// Create a fresh email verification token (raw token for the link, hash + expiry for the user)
+const createEmailVerification = () => {
+  const { token, hashedToken } = generateToken();
+  return {
+    verifyUrl: `${CLIENT_URL}/verify-email?token=${token}`,
+    fields: {
+      emailVerificationToken: hashedToken,
+      emailVerificationExpires: new Date(
+        Date.now() + EMAIL_VERIFICATION_EXPIRES_HOURS * 60 * 60 * 1000
+      ),
+      emailVerificationSentAt: new Date(),
+    },
+  };
+};
+
+// Request details stored with refresh tokens so sessions can be told apart
+const getClientInfo = (req: Request) => ({
+  ip: req.ip,
+  userAgent: req.get("user-agent"),
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Count a failed login and tell the owner if it just locked their account
+const handleFailedLogin = async (
+  email: string,
+  ip: string,
+  user: { email: string; firstName: string } | null
+) => {
+  const { accountLockedUntil } = await registerLoginFailure(email, ip);
+
+  if (accountLockedUntil && user) {
+    sendAccountLockedEmail(user.email, user.firstName, accountLockedUntil, ip).catch(
+      (err) => {
+        console.error(`❌ Failed to send account locked email to ${user.email}:`, err.message);
+      }
+    );
+  }
+};
+
+// One-time recovery codes: plain codes are shown to the user once, hashes are stored
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const { token } = generateToken(5);
+    return `${token.slice(0, 5)}-${token.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(code)) };
+};
+
+// Check a TOTP code or a recovery code against a user loaded with the 2FA fields.
+// Updates the user in memory (replay step / used recovery code); caller saves.
+const verifySecondFactor = (
+  user: HydratedDocument<IUser>,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+) => {
+  if (code && user.twoFactorSecret) {
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null || step <= (user.twoFactorLastUsedStep ?? -1)) {
+      return false;
+    }
+    user.twoFactorLastUsedStep = step;
+    return true;
+  }
+
+  if (recoveryCode) {
+    const hashed = hashToken(String(recoveryCode).trim().toLowerCase());
+    const index = user.twoFactorRecoveryCodes.indexOf(hashed);
+    if (index === -1) {
+      return false;
+    }
+    user.twoFactorRecoveryCodes.splice(index, 1);
+    return true;
+  }
+
+  return false;
+};
+
+// Final step of every login path: start a session and return the tokens
+const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: HydratedDocument<IUser>,
+  message: string,
+  extra: Record<string, any> = {}
+) => {
+  // The account may have been suspended between login steps
+  if (user.status === "suspended") {
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.FORBIDDEN,
+      "Your account has been suspended. Please contact support."
+    );
+  }
+
+  await registerLoginSuccess(user.email);
+
+  // Start a new session: short-lived access token + refresh token
+  const { token, refreshToken } = await issueTokens(
+    { id: user.id, email: user.email },
+    getClientInfo(req)
+  );
+
+  // Send success response with tokens
+  return sendSuccessResponse(res, HTTP_STATUS.OK, message, {
+    ...extra,
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+    },
+  });
+};
+
+// Public view of a user, safe to send back to its owner
+const buildUserProfile = (user: any) => ({
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  role: user.role,
+  permissions: user.permissions,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+// Runs once the first factor (password or social login) is verified: either
+// asks for the second factor or starts the session
+const beginLogin = async (req: Request, res: Response, user: HydratedDocument<IUser>) => {
+  if (user.status === "suspended") {
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.FORBIDDEN,
+      "Your account has been suspended. Please contact support."
+    );
+  }
+
+  // Second step: the code is checked by /auth/login/2fa before any session exists
+  if (user.twoFactorEnabled) {
+    const challengeToken = await signChallengeToken({
+      id: user.id,
+      purpose: "2fa-login",
+    });
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Two-factor authentication code required",
+      { twoFactorRequired: true, challengeToken }
+    );
+  }
+
+  // Roles that require 2FA must enroll (/auth/2fa/setup + /auth/2fa/confirm) first
+  if (isTwoFactorRequired(user.role)) {
+    const challengeToken = await signChallengeToken(
+      { id: user.id, purpose: "2fa-setup" },
+      "15m"
+    );
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Two-factor authentication must be set up before you can log in",
+      { twoFactorSetupRequired: true, challengeToken }
+    );
+  }
+
+  return completeLogin(req, res, user, "Login successful");
+};
+
 // Reusable success response function
 const sendSuccessResponse = (
   res: Response,
@@ -130,25 +367,35 @@ const register = async (req: Request, res: Response) => {
     // Hash password for secure storage (never store plain text passwords)
     const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
 
+    // Verification link is sent with the welcome email
+    const verification = createEmailVerification();
+
     // Create new user in database with hashed password
     const newUser = await User.create({
       firstName,
       lastName,
       email,
       password: hashedPassword,
+      ...verification.fields,
     });
 
-    // Generate JWT token for immediate login after registration
-    const token = await signToken({
-      id: newUser.id,
-      email: newUser.email,
-    });
+    // Start a session for immediate login after registration
+    const { token, refreshToken } = await issueTokens(
+      { id: newUser.id, email: newUser.email },
+      getClientInfo(req)
+    );
 
-    // Remove password from response for security
-    const { password: _, ...userResponse } = newUser.toObject();
+    // Remove password and verification details from response for security
+    const {
+      password: _,
+      emailVerificationToken,
+      emailVerificationExpires,
+      emailVerificationSentAt,
+      ...userResponse
+    } = newUser.toObject();
 
     // Send welcome email asynchronously (don't block registration)
-    sendWelcomeEmail(email, firstName)
+    sendWelcomeEmail(email, firstName, verification.verifyUrl)
       .then(() => {
         console.log(`✅ Welcome email sent successfully to ${email}`);
       })
@@ -168,6 +415,7 @@ const register = async (req: Request, res: Response) => {
       {
         user: userResponse,
         token,
+        refreshToken,
       }
     );
   } catch (error) {
@@ -207,11 +455,15 @@ const register = async (req: Request, res: Response) => {
  *                 example: password123
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a challenge token when 2FA is required or must be set up
  *       400:
  *         description: Email and password are required
  *       401:
  *         description: Invalid credentials
+ *       403:
+ *         description: Account is suspended
+ *       429:
+ *         description: Too many failed attempts - account or IP temporarily locked
  */
 const login = async (req: Request, res: Response) => {
   try {
@@ -232,10 +484,30 @@ const login = async (req: Request, res: Response) => {
       );
     }
 
+    // Brute-force protection: refuse locked accounts/IPs, slow down repeated failures
+    const ip = req.ip || "unknown";
+    const loginCheck = await checkLoginAllowed(email, ip);
+
+    if (!loginCheck.allowed) {
+      res.set("Retry-After", String(loginCheck.retryAfterSeconds));
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        loginCheck.reason === "account"
+          ? "Account temporarily locked due to too many failed login attempts. Please try again later."
+          : "Too many failed login attempts from this IP address. Please try again later."
+      );
+    }
+
+    if (loginCheck.delayMs > 0) {
+      await sleep(loginCheck.delayMs);
+    }
+
     // Find user by email (include password field for comparison)
     const user = await User.findOne({ email }).select("+password");
 
     if (!user) {
+      await handleFailedLogin(email, ip, null);
       return sendErrorResponse(
         res,
         HTTP_STATUS.UNAUTHORIZED,
@@ -244,9 +516,10 @@ const login = async (req: Request, res: Response) => {
     }
 
     // Verify password against stored hash
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = await verifyPassword(password, user.password);
 
     if (!isPasswordValid) {
+      await handleFailedLogin(email, ip, user);
       return sendErrorResponse(
         res,
         HTTP_STATUS.UNAUTHORIZED,
@@ -254,22 +527,7 @@ const login = async (req: Request, res: Response) => {
       );
     }
 
-    // Generate JWT token for authenticated session
-    const token = await signToken({
-      id: user.id,
-      email: user.email,
-    });
-
-    // Send success response with token
-    return sendSuccessResponse(res, HTTP_STATUS.OK, "Login successful", {
-      token,
-      user: {
-        id: user.id,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        email: user.email,
-      },
-    });
+    return beginLogin(req, res, user);
   } catch (error) {
     console.error("Login error:", error);
     return sendErrorResponse(
@@ -307,15 +565,7 @@ const profile = (req: AuthRequest, res: Response) => {
     }
 
     // Remove sensitive information before sending response
-    const userProfile = {
-      id: req.user.id,
-      firstName: req.user.firstName,
-      lastName: req.user.lastName,
-      email: req.user.email,
-      role: req.user.role,
-      createdAt: req.user.createdAt,
-      updatedAt: req.user.updatedAt,
-    };
+    const userProfile = buildUserProfile(req.user);
 
     // Send user profile data
     return sendSuccessResponse(
@@ -337,4 +587,1492 @@ const profile = (req: AuthRequest, res: Response) => {
   }
 };
 
-export { register, login, profile };
+/**
+ * @swagger
+ * /api/v1/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset email
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john@example.com
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ *       400:
+ *         description: Email is required
+ */
+const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, "Email is required");
+    }
+
+    // Same response whether or not the account exists, so emails can't be enumerated
+    const genericMessage =
+      "If an account with that email exists, a password reset link has been sent";
+
+    const user = await User.findOne({ email });
+
+    if (!user) {
+      return sendSuccessResponse(res, HTTP_STATUS.OK, genericMessage);
+    }
+
+    // Store only the hash; a new request replaces any previous token
+    const { token, hashedToken } = generateToken();
+    user.passwordResetToken = hashedToken;
+    user.passwordResetExpires = new Date(
+      Date.now() + PASSWORD_RESET_EXPIRES_MINUTES * 60 * 1000
+    );
+    await user.save();
+
+    const resetUrl = `${CLIENT_URL}/reset-password?token=${token}`;
+
+    try {
+      await sendPasswordResetEmail(
+        user.email,
+        user.firstName,
+        resetUrl,
+        PASSWORD_RESET_EXPIRES_MINUTES
+      );
+    } catch (emailError) {
+      // Don't leave a usable token behind if the user never received it
+      await User.updateOne(
+        { _id: user._id },
+        { $unset: { passwordResetToken: 1, passwordResetExpires: 1 } }
+      );
+      throw emailError;
+    }
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, genericMessage);
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to send password reset email. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/reset-password:
+ *   post:
+ *     summary: Reset password using the emailed token
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 6
+ *                 example: newPassword123
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Missing fields, weak password, or invalid/expired token
+ */
+const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    const validation = validateRequiredFields({ token, password }, [
+      "token",
+      "password",
+    ]);
+
+    if (!validation.isValid) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        `Missing required fields: ${validation.missingFields.join(", ")}`
+      );
+    }
+
+    // Check length here, since the schema only ever sees the bcrypt hash
+    if (typeof password !== "string" || password.length < 6) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Password must be at least 6 characters"
+      );
+    }
+
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Password reset token is invalid or has expired"
+      );
+    }
+
+    // Set the new password and burn the token so it can't be used again
+    user.password = await bcrypt.hash(password, SALT_ROUNDS);
+    user.set("passwordResetToken", undefined);
+    user.set("passwordResetExpires", undefined);
+    user.passwordChangedAt = new Date(); // Invalidates every JWT issued before now
+    await user.save();
+
+    // Sign out every device that was using the old password
+    await revokeAllUserTokens(user.id);
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Password has been reset successfully. Please log in with your new password."
+    );
+  } catch (error) {
+    console.error("Reset password error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to reset password. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     summary: Verify email address using the emailed token
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Missing, invalid or expired token
+ */
+const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, "Token is required");
+    }
+
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Verification token is invalid or has expired"
+      );
+    }
+
+    user.emailVerified = true;
+    user.set("emailVerificationToken", undefined);
+    user.set("emailVerificationExpires", undefined);
+    await user.save();
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, "Email verified successfully");
+  } catch (error) {
+    console.error("Email verification error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to verify email. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/resend-verification:
+ *   post:
+ *     summary: Resend the email verification link
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email is already verified
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       429:
+ *         description: Verification email was sent too recently
+ */
+const resendVerification = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user?.id).select(
+      "+emailVerificationSentAt"
+    );
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "User not found in request. Authentication required."
+      );
+    }
+
+    if (user.emailVerified) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Email is already verified"
+      );
+    }
+
+    // Throttle resends so the endpoint can't be used to spam an inbox
+    if (user.emailVerificationSentAt) {
+      const secondsSinceLastEmail =
+        (Date.now() - user.emailVerificationSentAt.getTime()) / 1000;
+
+      if (secondsSinceLastEmail < EMAIL_VERIFICATION_RESEND_SECONDS) {
+        const retryAfter = Math.ceil(
+          EMAIL_VERIFICATION_RESEND_SECONDS - secondsSinceLastEmail
+        );
+        res.set("Retry-After", String(retryAfter));
+        return sendErrorResponse(
+          res,
+          HTTP_STATUS.TOO_MANY_REQUESTS,
+          `Please wait ${retryAfter} seconds before requesting another verification email`
+        );
+      }
+    }
+
+    // A new link replaces the previous one
+    const verification = createEmailVerification();
+    user.set(verification.fields);
+    await user.save();
+
+    await sendVerificationEmail(user.email, user.firstName, verification.verifyUrl);
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, "Verification email sent");
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to send verification email. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access and refresh token
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *       400:
+ *         description: Refresh token is required
+ *       401:
+ *         description: Refresh token is invalid, expired or already used
+ */
+const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Refresh token is required"
+      );
+    }
+
+    // Each refresh token works once; the old one is revoked and replaced
+    const tokens = await rotateRefreshToken(refreshToken, getClientInfo(req));
+
+    if (!tokens) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Refresh token is invalid or has expired. Please log in again."
+      );
+    }
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Tokens refreshed successfully",
+      tokens
+    );
+  } catch (error) {
+    console.error("Token refresh error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to refresh tokens. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/logout:
+ *   post:
+ *     summary: Log out of the current device
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+const logout = async (req: AuthRequest, res: Response) => {
+  try {
+    // Revoking the session kills its refresh token and every access token issued for it
+    if (req.sessionId) {
+      await revokeFamily(req.sessionId);
+    }
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, "Logged out successfully");
+  } catch (error) {
+    console.error("Logout error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Logout failed. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/logout-all:
+ *   post:
+ *     summary: Log out of all devices
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out of all devices successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+const logoutAll = async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeAllUserTokens(req.user.id);
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Logged out of all devices successfully"
+    );
+  } catch (error) {
+    console.error("Logout all error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Logout failed. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Complete login with a two-factor code
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Token returned by /auth/login
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: One-time recovery code, used instead of code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Missing challenge token or code
+ *       401:
+ *         description: Invalid challenge token or code
+ *       429:
+ *         description: Too many failed attempts
+ */
+const loginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Challenge token and a code or recovery code are required"
+      );
+    }
+
+    let userId: string;
+    try {
+      ({ id: userId } = await verifyChallengeToken(challengeToken, "2fa-login"));
+    } catch {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Challenge token is invalid or has expired. Please log in again."
+      );
+    }
+
+    const user = await User.findById(userId).select(
+      "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep"
+    );
+
+    if (!user || !user.twoFactorEnabled) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Challenge token is invalid or has expired. Please log in again."
+      );
+    }
+
+    // Code guesses count towards the same lockout as password guesses
+    const ip = req.ip || "unknown";
+    const loginCheck = await checkLoginAllowed(user.email, ip);
+
+    if (!loginCheck.allowed) {
+      res.set("Retry-After", String(loginCheck.retryAfterSeconds));
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        "Too many failed login attempts. Please try again later."
+      );
+    }
+
+    if (!verifySecondFactor(user, { code, recoveryCode })) {
+      await handleFailedLogin(user.email, ip, user);
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Invalid two-factor code"
+      );
+    }
+
+    await user.save();
+
+    return completeLogin(req, res, user, "Login successful", {
+      ...(recoveryCode && {
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+      }),
+    });
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Login failed. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Returns a new TOTP secret and otpauth URI. Accepts a bearer token, or the challengeToken from /auth/login when 2FA setup is required.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret generated, confirm it with /auth/2fa/confirm
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         description: Unauthorized
+ */
+const setupTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user?.id);
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "User not found in request. Authentication required."
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Two-factor authentication is already enabled"
+      );
+    }
+
+    // Kept as pending until the user proves their app generates valid codes
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Scan the QR code with your authenticator app, then confirm with a code",
+      {
+        secret,
+        otpauthUrl: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER),
+      }
+    );
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to start two-factor setup. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment with a code from the app
+ *     description: Enables 2FA and returns one-time recovery codes (shown only once). When called with a challengeToken the response also contains session tokens.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *       400:
+ *         description: Missing or invalid code, or setup not started
+ *       401:
+ *         description: Unauthorized
+ */
+const confirmTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, "Code is required");
+    }
+
+    const user = await User.findById(req.user?.id).select(
+      "+twoFactorPendingSecret"
+    );
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "User not found in request. Authentication required."
+      );
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Two-factor setup has not been started"
+      );
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+
+    if (step === null) {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, "Invalid code");
+    }
+
+    const recovery = generateRecoveryCodes();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.set("twoFactorPendingSecret", undefined);
+    user.twoFactorEnabled = true;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorRecoveryCodes = recovery.hashes;
+    await user.save();
+
+    // Users forced to enroll at login get their session once setup is done
+    if (req.viaChallenge) {
+      return completeLogin(
+        req,
+        res,
+        user,
+        "Two-factor authentication enabled. Login successful",
+        { recoveryCodes: recovery.codes }
+      );
+    }
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Two-factor authentication enabled. Store your recovery codes somewhere safe",
+      { recoveryCodes: recovery.codes }
+    );
+  } catch (error) {
+    console.error("Two-factor confirm error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to enable two-factor authentication. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace recovery codes
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes generated, old ones no longer work
+ *       400:
+ *         description: Invalid code or 2FA not enabled
+ */
+const regenerateRecoveryCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    const user = await User.findById(req.user?.id).select(
+      "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep"
+    );
+
+    if (!user || !user.twoFactorEnabled) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Two-factor authentication is not enabled"
+      );
+    }
+
+    if (!code || !verifySecondFactor(user, { code })) {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, "Invalid code");
+    }
+
+    const recovery = generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = recovery.hashes;
+    await user.save();
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "New recovery codes generated",
+      { recoveryCodes: recovery.codes }
+    );
+  } catch (error) {
+    console.error("Recovery code regeneration error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to generate recovery codes. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Required unless the account has no password (social login only)
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid password or code
+ *       403:
+ *         description: Two-factor authentication is required for this role
+ */
+const disableTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (isTwoFactorRequired(req.user?.role)) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.FORBIDDEN,
+        "Two-factor authentication is required for your role and cannot be disabled"
+      );
+    }
+
+    const user = await User.findById(req.user?.id).select(
+      "+password +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep"
+    );
+
+    if (!user || !user.twoFactorEnabled) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Two-factor authentication is not enabled"
+      );
+    }
+
+    // Require both factors so a stolen session alone can't turn 2FA off. Accounts
+    // from social login have no password; the second factor is all they can give.
+    const isPasswordValid = !user.password || (await verifyPassword(password, user.password));
+
+    if (!isPasswordValid || !verifySecondFactor(user, { code, recoveryCode })) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Invalid password or code"
+      );
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorRecoveryCodes = [];
+    user.set("twoFactorSecret", undefined);
+    user.set("twoFactorLastUsedStep", undefined);
+    await user.save();
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Two-factor authentication disabled"
+    );
+  } catch (error) {
+    console.error("Two-factor disable error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to disable two-factor authentication. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/profile:
+ *   patch:
+ *     summary: Update current user profile
+ *     description: Only firstName and lastName can be changed here. Use /auth/change-password and /auth/change-email for the rest.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *                 example: John
+ *               lastName:
+ *                 type: string
+ *                 example: Doe
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *       400:
+ *         description: No editable fields provided, or validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+const updateProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    // Only copy whitelisted fields, anything else in the body is ignored
+    const updates: Record<string, any> = {};
+    for (const field of EDITABLE_PROFILE_FIELDS) {
+      if (req.body?.[field] !== undefined) {
+        updates[field] = req.body?.[field];
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        `Nothing to update. Editable fields: ${EDITABLE_PROFILE_FIELDS.join(", ")}`
+      );
+    }
+
+    const user = await User.findByIdAndUpdate(req.user.id, updates, {
+      new: true,
+      runValidators: true,
+    });
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "User not found in request. Authentication required."
+      );
+    }
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, "Profile updated successfully", {
+      user: buildUserProfile(user),
+    });
+  } catch (error: any) {
+    if (error.name === "ValidationError") {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, error.message);
+    }
+
+    console.error("Profile update error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to update profile. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/change-password:
+ *   post:
+ *     summary: Change password
+ *     description: Signs out every session and returns fresh tokens for the current device.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *       400:
+ *         description: Missing fields, weak new password, or the account has no password yet (set one through forgot password)
+ *       401:
+ *         description: Current password is incorrect
+ */
+const changePassword = async (req: AuthRequest, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const validation = validateRequiredFields({ currentPassword, newPassword }, [
+      "currentPassword",
+      "newPassword",
+    ]);
+
+    if (!validation.isValid) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        `Missing required fields: ${validation.missingFields.join(", ")}`
+      );
+    }
+
+    // Check length here, since the schema only ever sees the bcrypt hash
+    if (typeof newPassword !== "string" || newPassword.length < 6) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Password must be at least 6 characters"
+      );
+    }
+
+    const user = await User.findById(req.user.id).select("+password");
+
+    if (user && !user.password) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        NO_PASSWORD_MESSAGE
+      );
+    }
+
+    if (!user || !(await verifyPassword(currentPassword, user.password))) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Current password is incorrect"
+      );
+    }
+
+    user.password = await bcrypt.hash(newPassword, SALT_ROUNDS);
+    user.passwordChangedAt = new Date(); // Invalidates every JWT issued before now
+    await user.save();
+
+    // Sign out everywhere, then give this device a fresh session
+    await revokeAllUserTokens(user.id);
+    const tokens = await issueTokens(
+      { id: user.id, email: user.email },
+      getClientInfo(req)
+    );
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      "Password changed successfully",
+      tokens
+    );
+  } catch (error) {
+    console.error("Change password error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to change password. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/change-email:
+ *   post:
+ *     summary: Request an email address change
+ *     description: Sends a confirmation link to the new address. The email only changes once it is confirmed.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newEmail
+ *               - password
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Confirmation email sent to the new address
+ *       400:
+ *         description: Missing fields, same email as current, or the account has no password yet (set one through forgot password)
+ *       401:
+ *         description: Password is incorrect
+ *       409:
+ *         description: Email is already in use
+ */
+const requestEmailChange = async (req: AuthRequest, res: Response) => {
+  try {
+    const { newEmail, password } = req.body;
+
+    const validation = validateRequiredFields({ newEmail, password }, [
+      "newEmail",
+      "password",
+    ]);
+
+    if (!validation.isValid) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        `Missing required fields: ${validation.missingFields.join(", ")}`
+      );
+    }
+
+    const email = String(newEmail).trim().toLowerCase();
+
+    const user = await User.findById(req.user.id).select("+password");
+
+    if (user && !user.password) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        NO_PASSWORD_MESSAGE
+      );
+    }
+
+    if (!user || !(await verifyPassword(password, user.password))) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Password is incorrect"
+      );
+    }
+
+    if (email === user.email) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "New email is the same as your current email"
+      );
+    }
+
+    if (await User.exists({ email })) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.CONFLICT,
+        "User with this email already exists"
+      );
+    }
+
+    const { token, hashedToken } = generateToken();
+    user.pendingEmail = email;
+    user.emailChangeToken = hashedToken;
+    user.emailChangeExpires = new Date(
+      Date.now() + EMAIL_CHANGE_EXPIRES_HOURS * 60 * 60 * 1000
+    );
+    await user.save();
+
+    await sendEmailChangeEmail(
+      email,
+      user.firstName,
+      `${CLIENT_URL}/confirm-email-change?token=${token}`
+    );
+
+    return sendSuccessResponse(
+      res,
+      HTTP_STATUS.OK,
+      `A confirmation link has been sent to ${email}`
+    );
+  } catch (error) {
+    console.error("Email change request error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to request email change. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/confirm-email-change:
+ *   post:
+ *     summary: Confirm an email address change using the emailed token
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email changed successfully
+ *       400:
+ *         description: Missing, invalid or expired token
+ *       409:
+ *         description: Email was taken by another account in the meantime
+ */
+const confirmEmailChange = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, "Token is required");
+    }
+
+    const user = await User.findOne({
+      emailChangeToken: hashToken(token),
+      emailChangeExpires: { $gt: new Date() },
+    }).select("+pendingEmail");
+
+    if (!user || !user.pendingEmail) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Email change token is invalid or has expired"
+      );
+    }
+
+    // Someone may have registered the address since the change was requested
+    if (await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } })) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.CONFLICT,
+        "User with this email already exists"
+      );
+    }
+
+    // Clicking the link proves the new address is real
+    user.email = user.pendingEmail;
+    user.emailVerified = true;
+    user.set("pendingEmail", undefined);
+    user.set("emailChangeToken", undefined);
+    user.set("emailChangeExpires", undefined);
+    await user.save();
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, "Email changed successfully", {
+      email: user.email,
+    });
+  } catch (error) {
+    console.error("Email change confirm error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to change email. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/providers:
+ *   get:
+ *     summary: List configured social login providers
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Provider names usable in /auth/oidc/{provider}/...
+ */
+const oidcProviders = (req: Request, res: Response) => {
+  return sendSuccessResponse(res, HTTP_STATUS.OK, "Providers retrieved successfully", {
+    providers: getOidcProviderNames(),
+  });
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/{provider}/authorize:
+ *   get:
+ *     summary: Start social login
+ *     description: Returns the provider URL to send the browser to (authorization code flow with PKCE). The provider redirects back to the configured redirectUri with code and state.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL created
+ *       404:
+ *         description: Unknown provider
+ */
+const oidcAuthorize = async (req: Request, res: Response) => {
+  try {
+    const provider = getOidcProvider(String(req.params.provider));
+
+    if (!provider) {
+      return sendErrorResponse(res, HTTP_STATUS.NOT_FOUND, "Unknown login provider");
+    }
+
+    const authorizationUrl = await createAuthorizationUrl(provider);
+
+    return sendSuccessResponse(res, HTTP_STATUS.OK, "Redirect the user to authorizationUrl", {
+      authorizationUrl,
+    });
+  } catch (error) {
+    console.error("OIDC authorize error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Failed to start social login. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/{provider}/callback:
+ *   post:
+ *     summary: Finish social login
+ *     description: Exchange the code and state the provider returned. Links the identity to the account with the same verified email, or creates a new account without a password (only for an email the provider has verified). Responds like /auth/login (tokens, or a 2FA challenge).
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful, or a 2FA challenge
+ *       400:
+ *         description: Missing code/state, or the provider did not share an email
+ *       401:
+ *         description: Invalid or expired state, or ID token failed verification
+ *       403:
+ *         description: No account has this email yet and the provider has not verified it
+ *       404:
+ *         description: Unknown provider
+ *       409:
+ *         description: An account with this email exists but the provider has not verified the email
+ */
+const oidcCallback = async (req: Request, res: Response) => {
+  try {
+    const provider = getOidcProvider(String(req.params.provider));
+
+    if (!provider) {
+      return sendErrorResponse(res, HTTP_STATUS.NOT_FOUND, "Unknown login provider");
+    }
+
+    const { code, state } = req.body;
+
+    if (!code || !state) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        "Code and state are required"
+      );
+    }
+
+    let identity;
+    try {
+      identity = await completeAuthorization(provider, String(code), String(state));
+    } catch (error: any) {
+      console.error("OIDC token verification error:", error.message);
+      identity = null;
+    }
+
+    if (!identity) {
+      return sendErrorResponse(
+        res,
+        HTTP_STATUS.UNAUTHORIZED,
+        "Social login failed or expired. Please try again."
+      );
+    }
+
+    // 1. Returning user: identity already linked
+    let user = await User.findOne({
+      identities: { $elemMatch: { provider: provider.name, subject: identity.subject } },
+    });
+
+    if (!user) {
+      if (!identity.email) {
+        return sendErrorResponse(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          "The login provider did not share an email address"
+        );
+      }
+
+      const linkedIdentity = {
+        provider: provider.name,
+        subject: identity.subject,
+        email: identity.email,
+        linkedAt: new Date(),
+      };
+
+      user = await User.findOne({ email: identity.email });
+
+      if (user) {
+        // 2. Existing account: only link when the provider vouches for the email,
+        // otherwise anyone could claim an account by typing its address at the provider
+        if (!identity.emailVerified) {
+          return sendErrorResponse(
+            res,
+            HTTP_STATUS.CONFLICT,
+            "An account with this email already exists. Log in with your password to continue."
+          );
+        }
+
+        user.identities.push(linkedIdentity);
+        user.emailVerified = true;
+        await user.save();
+      } else {
+        // 3. New account without a local password. Same rule: an unverified address
+        // would let anyone take an email before its owner registers.
+        if (!identity.emailVerified) {
+          return sendErrorResponse(
+            res,
+            HTTP_STATUS.FORBIDDEN,
+            "Your login provider has not verified your email address. Verify it there, or register with a password instead."
+          );
+        }
+
+        user = await User.create({
+          firstName: identity.firstName || identity.email.split("@")[0] || "User",
+          lastName: identity.lastName || "-",
+          email: identity.email,
+          emailVerified: true,
+          identities: [linkedIdentity],
+        });
+      }
+    }
+
+    // Same rules as a password login from here (suspension, 2FA)
+    return beginLogin(req, res, user);
+  } catch (error) {
+    console.error("OIDC callback error:", error);
+    return sendErrorResponse(
+      res,
+      HTTP_STATUS.INTERNAL_ERROR,
+      "Social login failed. Please try again.",
+      process.env.NODE_ENV === "development" ? error : undefined
+    );
+  }
+};
+
+export {
+  register,
+  login,
+  profile,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  refresh,
+  logout,
+  logoutAll,
+  loginTwoFactor,
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  updateProfile,
+  changePassword,
+  requestEmailChange,
+  confirmEmailChange,
+  oidcProviders,
+  oidcAuthorize,
+  oidcCallback,
+};
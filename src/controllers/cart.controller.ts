@@ -2,12 +2,22 @@ import { Request, Response } from 'express';
 import { Cart } from '../models/cart.model';
 import { Product } from '../models/product.model';
 import { AuthRequest } from '../middlewares/authenticate';
+import { resolveStockItem } from '../service/stock.service';
+import { addItemToCart, isSameLine } from '../service/cart.service';
+import {
+  getReservedQuantity,
+  reserveStock,
+  extendReservations,
+  releaseReservation,
+  releaseAllReservations
+} from '../service/reservation.service';
 
 /**
  * @swagger
  * /api/v1/cart:
  *   get:
  *     summary: Get user's cart
+ *     description: Includes `notices` about changes made to the cart for the user (e.g. a product that is no longer sold was removed). Each notice is returned once. When stock reservations are enabled (CART_RESERVATION_MINUTES), any cart activity extends them; `reservedUntil` is when they expire.
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
@@ -26,9 +36,23 @@ export const getCart = async (req: AuthRequest, res: Response) => {
       cart = await Cart.create({ user: userId, items: [] });
     }
 
+    // Notices are shown once; the copy in `cart` still goes out in this response.
+    // Only the ones sent here are cleared, not any added since the cart was read.
+    if (cart.notices.length > 0) {
+      const latestSent = new Date(Math.max(...cart.notices.map((notice) => notice.createdAt.getTime())));
+      await Cart.updateOne(
+        { _id: cart._id },
+        { $pull: { notices: { createdAt: { $lte: latestSent } } } }
+      );
+    }
+
+    // Looking at the cart keeps its reserved stock
+    const reservedUntil = await extendReservations(userId);
+
     res.status(200).json({
       success: true,
-      data: cart
+      data: cart,
+      reservedUntil
     });
   } catch (error: any) {
     res.status(500).json({
@@ -58,6 +82,9 @@ export const getCart = async (req: AuthRequest, res: Response) => {
  *             properties:
  *               productId:
  *                 type: string
+ *               variantId:
+ *                 type: string
+ *                 description: Required for products that have variants
  *               quantity:
  *                 type: number
  *                 minimum: 1
@@ -65,7 +92,7 @@ export const getCart = async (req: AuthRequest, res: Response) => {
 export const addToCart = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.id;
-    const { productId, quantity } = req.body;
+    const { productId, variantId, quantity } = req.body;
 
     if (!productId || !quantity || quantity < 1) {
       return res.status(400).json({
@@ -74,58 +101,14 @@ export const addToCart = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if product exists and is in stock
-    const product = await Product.findById(productId);
-    if (!product) {
-      return res.status(404).json({
+    const result = await addItemToCart(userId, productId, variantId, quantity);
+    if ('error' in result) {
+      return res.status(result.status).json({
         success: false,
-        message: 'Product not found'
-      });
-    }
-
-    if (!product.inStock || product.quantity < quantity) {
-      return res.status(400).json({
-        success: false,
-        message: 'Product is out of stock or insufficient quantity'
-      });
-    }
-
-    // Find or create cart
-    let cart = await Cart.findOne({ user: userId });
-    if (!cart) {
-      cart = new Cart({ user: userId, items: [] });
-    }
-
-    // Check if item already exists in cart
-    const existingItemIndex = cart.items.findIndex(
-      item => item.product.toString() === productId
-    );
-
-    if (existingItemIndex > -1) {
-      // Update quantity if item exists
-      const existingItem = cart.items[existingItemIndex];
-      if (existingItem) {
-        const newQuantity = existingItem.quantity + quantity;
-        
-        if (newQuantity > product.quantity) {
-          return res.status(400).json({
-            success: false,
-            message: `Only ${product.quantity} items available in stock`
-          });
-        }
-
-        existingItem.quantity = newQuantity;
-      }
-    } else {
-      // Add new item to cart
-      cart.items.push({
-        product: productId,
-        quantity,
-        price: product.price
+        message: result.error
       });
     }
-
-    await cart.save();
+    const { cart, reservedUntil } = result;
 
     // Populate and return updated cart
     await cart.populate('items.product', 'name price images category inStock');
@@ -133,7 +116,8 @@ export const addToCart = async (req: AuthRequest, res: Response) => {
     res.status(200).json({
       success: true,
       message: 'Item added to cart successfully',
-      data: cart
+      data: cart,
+      reservedUntil
     });
   } catch (error: any) {
     res.status(500).json({
@@ -148,6 +132,7 @@ export const addToCart = async (req: AuthRequest, res: Response) => {
  * /api/v1/cart/update:
  *   put:
  *     summary: Update cart item quantity
+ *     description: Pass variantId as well for products that have variants. A quantity of 0 removes the item.
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
@@ -155,7 +140,7 @@ export const addToCart = async (req: AuthRequest, res: Response) => {
 export const updateCartItem = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.id;
-    const { productId, quantity } = req.body;
+    const { productId, variantId, quantity } = req.body;
 
     if (!productId || quantity < 0) {
       return res.status(400).json({
@@ -173,7 +158,7 @@ export const updateCartItem = async (req: AuthRequest, res: Response) => {
     }
 
     const itemIndex = cart.items.findIndex(
-      item => item.product.toString() === productId
+      item => isSameLine(item, productId, variantId)
     );
 
     if (itemIndex === -1) {
@@ -186,29 +171,43 @@ export const updateCartItem = async (req: AuthRequest, res: Response) => {
     if (quantity === 0) {
       // Remove item if quantity is 0
       cart.items.splice(itemIndex, 1);
+      await releaseReservation(userId, productId, variantId);
     } else {
-      // Check stock availability
-      const product = await Product.findById(productId);
-      if (!product || product.quantity < quantity) {
+      // Check stock availability (stock reserved by other customers doesn't count)
+      const product = await Product.findOne({ _id: productId, archivedAt: null });
+      const stockItem = product && resolveStockItem(product, variantId);
+      const reservedByOthers = await getReservedQuantity(productId, variantId, userId);
+      if (!stockItem || stockItem.error !== undefined || stockItem.available - reservedByOthers < quantity) {
         return res.status(400).json({
           success: false,
           message: 'Insufficient stock'
         });
       }
 
+      const reservation = await reserveStock(userId, productId, variantId, quantity, stockItem.available);
+      if ('error' in reservation) {
+        return res.status(409).json({
+          success: false,
+          message: reservation.error
+        });
+      }
+
       const cartItem = cart.items[itemIndex];
       if (cartItem) {
         cartItem.quantity = quantity;
+        cartItem.price = stockItem.price;
       }
     }
 
     await cart.save();
     await cart.populate('items.product', 'name price images category inStock');
+    const reservedUntil = await extendReservations(userId);
 
     res.status(200).json({
       success: true,
       message: 'Cart updated successfully',
-      data: cart
+      data: cart,
+      reservedUntil
     });
   } catch (error: any) {
     res.status(500).json({
@@ -223,6 +222,7 @@ export const updateCartItem = async (req: AuthRequest, res: Response) => {
  * /api/v1/cart/remove:
  *   delete:
  *     summary: Remove item from cart
+ *     description: Removes the given variant, or every line of the product when variantId is omitted.
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
@@ -230,7 +230,7 @@ export const updateCartItem = async (req: AuthRequest, res: Response) => {
 export const removeFromCart = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.id;
-    const { productId } = req.body;
+    const { productId, variantId } = req.body;
 
     const cart = await Cart.findOne({ user: userId });
     if (!cart) {
@@ -240,11 +240,14 @@ export const removeFromCart = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    cart.items = cart.items.filter(
-      item => item.product.toString() !== productId
+    cart.items = cart.items.filter(item =>
+      variantId
+        ? !isSameLine(item, productId, variantId)
+        : item.product.toString() !== productId
     );
 
     await cart.save();
+    await releaseReservation(userId, productId, variantId);
     await cart.populate('items.product', 'name price images category inStock');
 
     res.status(200).json({
@@ -283,6 +286,7 @@ export const clearCart = async (req: AuthRequest, res: Response) => {
 
     cart.items = [];
     await cart.save();
+    await releaseAllReservations(userId);
 
     res.status(200).json({
       success: true,
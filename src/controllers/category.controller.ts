@@ -0,0 +1,390 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Category } from "../models/category.model";
+import { Product } from "../models/product.model";
+import {
+  slugify,
+  findCategory,
+  buildCategoryTree,
+  moveCategory,
+  migrateStringCategories,
+} from "../service/category.service";
+
+// 400 for failed validation, 409 for a taken slug, 500 otherwise
+const sendCategoryWriteError = (res: Response, message: string, error: any) => {
+  if (error.name === "ValidationError") {
+    return res.status(400).json({
+      success: false,
+      message: "Validation failed",
+      errors: Object.values(error.errors).map((err: any) => err.message),
+    });
+  }
+
+  if (error.code === 11000) {
+    return res.status(409).json({
+      success: false,
+      message: "A category with this slug already exists",
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    message,
+    error: error.message
+  });
+};
+
+/**
+ * @swagger
+ * /api/v1/categories:
+ *   get:
+ *     summary: Get all categories
+ *     description: Returns the category tree, or a flat list ordered for display with `?flat=true`.
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: query
+ *         name: flat
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Categories
+ */
+export const getCategories = async (req: Request, res: Response) => {
+  try {
+    const categories = await Category.find().sort({ sortOrder: 1, name: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: req.query.flat === "true" ? categories : buildCategoryTree(categories),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to retrieve categories",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/categories/{idOrSlug}:
+ *   get:
+ *     summary: Get a category with its breadcrumb and direct subcategories
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: path
+ *         name: idOrSlug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Category found
+ *       404:
+ *         description: Category not found
+ */
+export const getCategory = async (req: Request, res: Response) => {
+  try {
+    const category = await findCategory(String(req.params.idOrSlug))
+      .populate("ancestors", "name slug");
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+
+    const children = await Category.find({ parent: category._id })
+      .sort({ sortOrder: 1, name: 1 })
+      .select("name slug sortOrder");
+
+    res.status(200).json({
+      success: true,
+      data: { ...category.toObject(), children },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to retrieve category",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/categories:
+ *   post:
+ *     summary: Create a category
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Running Shoes
+ *               slug:
+ *                 type: string
+ *                 description: Defaults to the name, e.g. running-shoes
+ *               description:
+ *                 type: string
+ *               parent:
+ *                 type: string
+ *                 description: Parent category id (omit for a top-level category)
+ *               sortOrder:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Category created
+ *       400:
+ *         description: Validation failed or parent not found
+ *       409:
+ *         description: Slug already taken
+ */
+export const createCategory = async (req: Request, res: Response) => {
+  try {
+    const { name, slug, description, parent, sortOrder } = req.body;
+
+    let parentCategory = null;
+    if (parent) {
+      parentCategory = await Category.findById(parent);
+      if (!parentCategory) {
+        return res.status(400).json({
+          success: false,
+          message: "Parent category not found",
+        });
+      }
+    }
+
+    const category = await Category.create({
+      name,
+      slug: slugify(slug || name || ""),
+      description,
+      parent: parentCategory?._id ?? null,
+      ancestors: parentCategory
+        ? [...parentCategory.ancestors, parentCategory._id]
+        : [],
+      sortOrder,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: category,
+      message: "Category created successfully",
+    });
+  } catch (error: any) {
+    sendCategoryWriteError(res, "Failed to create category", error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}:
+ *   put:
+ *     summary: Update, rename or move a category
+ *     description: Setting `parent` moves the category with all its subcategories (null moves it to the top level). Renaming updates the category shown on its products.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               parent:
+ *                 type: string
+ *                 nullable: true
+ *               sortOrder:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Category updated
+ *       400:
+ *         description: Validation failed, or the move would put the category inside itself
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: Slug already taken
+ */
+export const updateCategory = async (req: Request, res: Response) => {
+  try {
+    const { name, slug, description, parent, sortOrder } = req.body;
+
+    const category = await Category.findById(req.params.id);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+
+    const renamed = name !== undefined && name !== category.name;
+
+    if (name !== undefined) category.name = name;
+    if (slug !== undefined) category.slug = slugify(slug);
+    if (description !== undefined) category.description = description;
+    if (sortOrder !== undefined) category.sortOrder = sortOrder;
+
+    if (parent !== undefined && String(parent ?? "") !== String(category.parent ?? "")) {
+      const result = await moveCategory(category, parent || null);
+      if (result.error) {
+        return res.status(400).json({
+          success: false,
+          message: result.error,
+        });
+      }
+    } else {
+      await category.save();
+    }
+
+    if (renamed) {
+      await Product.updateMany({ category: category._id }, { categoryName: category.name });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: category,
+      message: "Category updated successfully",
+    });
+  } catch (error: any) {
+    sendCategoryWriteError(res, "Failed to update category", error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}:
+ *   delete:
+ *     summary: Delete a category
+ *     description: Only empty categories (no subcategories and no products) can be deleted.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Category deleted
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: Category still has subcategories or products
+ */
+export const deleteCategory = async (req: Request, res: Response) => {
+  try {
+    const category = await Category.findById(req.params.id);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+
+    const categoryId = category._id as Types.ObjectId;
+    const [children, products] = await Promise.all([
+      Category.countDocuments({ parent: categoryId }),
+      Product.countDocuments({ category: categoryId }),
+    ]);
+
+    if (children > 0 || products > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Category still has ${children} subcategories and ${products} products. Move them first.`,
+      });
+    }
+
+    await category.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: "Category deleted successfully",
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete category",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/categories/migrate:
+ *   post:
+ *     summary: Convert old free-text product categories into categories
+ *     description: Creates a top-level category for each distinct category string (case and spacing are ignored, so "Shoes" and "shoes" merge) and points the products at it. Safe to run again.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mappings:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Send other spellings to a category slug
+ *                 example: { "Footwear": "shoes" }
+ *     responses:
+ *       200:
+ *         description: Migration report
+ */
+export const migrateCategories = async (req: Request, res: Response) => {
+  try {
+    const mappings = req.body?.mappings;
+
+    if (mappings !== undefined && (typeof mappings !== "object" || Array.isArray(mappings))) {
+      return res.status(400).json({
+        success: false,
+        message: "mappings must be an object of { categoryText: slug }",
+      });
+    }
+
+    const report = await migrateStringCategories(mappings);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+      message: "Categories migrated",
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to migrate categories",
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,298 @@
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import { Product } from '../models/product.model';
+import { Order } from '../models/order.model';
+import { InventoryMovement, MOVEMENT_REASONS, MovementReason } from '../models/inventoryMovement.model';
+import { AuthRequest } from '../middlewares/authenticate';
+import { resolveStockItem, getAvailableStock } from '../service/stock.service';
+import { buildMovement, recordStockMovements, getStockLevels } from '../service/inventory.service';
+import { sendStockAlerts } from '../service/stockAlert.service';
+import { getPagination, buildPagination, parseDate } from '../utils/query.helper';
+
+// Sales and cancellations are only ever recorded by orders
+const ADJUSTMENT_REASONS: MovementReason[] = ['restock', 'adjustment', 'return'];
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/inventory/adjustments:
+ *   post:
+ *     summary: Adjust stock through the inventory ledger
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantityChange
+ *             properties:
+ *               variantId:
+ *                 type: string
+ *                 description: Required for products with variants
+ *               quantityChange:
+ *                 type: integer
+ *                 description: Positive to add stock, negative to remove it
+ *                 example: 25
+ *               reason:
+ *                 type: string
+ *                 enum: [restock, adjustment, return]
+ *                 default: adjustment
+ *               orderId:
+ *                 type: string
+ *                 description: The order a return belongs to
+ *               note:
+ *                 type: string
+ *                 example: Damaged in warehouse
+ *     responses:
+ *       201:
+ *         description: Stock adjusted; returns the ledger entry
+ *       400:
+ *         description: Invalid change, or stock would go below zero
+ *       404:
+ *         description: Product not found
+ */
+export const adjustStock = async (req: AuthRequest, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { variantId, quantityChange, reason = 'adjustment', orderId, note } = req.body;
+
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'quantityChange must be a non-zero whole number'
+      });
+    }
+
+    if (!ADJUSTMENT_REASONS.includes(reason)) {
+      return res.status(400).json({
+        success: false,
+        message: `reason must be one of: ${ADJUSTMENT_REASONS.join(', ')}`
+      });
+    }
+
+    const product = await Product.findById(req.params.id).session(session);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const stockItem = resolveStockItem(product, variantId);
+    if (stockItem.error !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: stockItem.error
+      });
+    }
+
+    if (orderId && !(await Order.exists({ _id: orderId, 'items.product': product._id }).session(session))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Order not found for this product'
+      });
+    }
+
+    const stock = stockItem.variant || product;
+    if (stock.quantity + quantityChange < 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Only ${stock.quantity} in stock for ${stockItem.label}`
+      });
+    }
+
+    const availableBefore = getAvailableStock(product);
+    stock.quantity += quantityChange;
+    stock.inStock = stock.quantity > 0;
+    await product.save({ session });
+
+    const movement = buildMovement(product, variantId, quantityChange, {
+      reason,
+      actor: req.user?.id,
+      order: orderId,
+      note
+    });
+    await recordStockMovements([movement], session);
+
+    await session.commitTransaction();
+    sendStockAlerts([movement], new Map([[String(product._id), availableBefore]]));
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock adjusted successfully',
+      data: movement
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: Object.values(error.errors).map((err: any) => err.message)
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to adjust stock',
+      error: error.message
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/inventory/movements:
+ *   get:
+ *     summary: Stock movement report of a product
+ *     description: >
+ *       Ledger entries (newest first, filterable), plus a reconciliation summary per
+ *       stock item over the whole ledger: totals per reason, the net change and the
+ *       current stock. A non-zero `difference` means stock changed outside the ledger
+ *       (e.g. before it existed).
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [sale, cancellation, restock, adjustment, return]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Movements and summary
+ *       400:
+ *         description: Invalid filter
+ *       404:
+ *         description: Product not found
+ */
+export const getStockMovements = async (req: Request, res: Response) => {
+  try {
+    const { variantId, reason } = req.query;
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return res.status(400).json({
+        success: false,
+        message: 'from and to must be valid dates'
+      });
+    }
+
+    if (reason && !MOVEMENT_REASONS.includes(reason as MovementReason)) {
+      return res.status(400).json({
+        success: false,
+        message: `reason must be one of: ${MOVEMENT_REASONS.join(', ')}`
+      });
+    }
+
+    const product = await Product.findById(req.params.id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const { page, limit, skip } = getPagination(req.query, 50);
+    const filter: Record<string, any> = { product: product._id };
+    if (variantId) filter.variant = String(variantId);
+    if (reason) filter.reason = reason;
+    if (from || to) {
+      filter.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    }
+
+    const [movements, totalMovements, totals] = await Promise.all([
+      InventoryMovement.find(filter)
+        .populate('actor', 'firstName lastName email')
+        .populate('order', 'orderNumber status')
+        .sort({ createdAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit),
+      InventoryMovement.countDocuments(filter),
+      InventoryMovement.aggregate([
+        { $match: { product: product._id } },
+        {
+          $group: {
+            _id: { variant: '$variant', reason: '$reason' },
+            total: { $sum: '$quantityChange' },
+            sku: { $last: '$sku' }
+          }
+        }
+      ]),
+    ]);
+
+    // One summary line per stock item: the product itself, or each variant
+    // (including removed variants that still have ledger entries)
+    const summary = new Map<string, any>();
+    for (const [key, { quantity, sku }] of getStockLevels(product)) {
+      summary.set(key, { variant: key || undefined, sku, byReason: {}, netChange: 0, currentQuantity: quantity });
+    }
+    for (const { _id, total, sku } of totals) {
+      const key = _id.variant ? String(_id.variant) : '';
+      const line = summary.get(key) ||
+        { variant: key || undefined, sku, byReason: {}, netChange: 0, currentQuantity: 0 };
+      line.byReason[_id.reason] = total;
+      line.netChange += total;
+      summary.set(key, line);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: movements,
+      summary: [...summary.values()].map((line) => ({
+        ...line,
+        difference: line.currentQuantity - line.netChange
+      })),
+      pagination: buildPagination(page, limit, totalMovements)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve stock movements',
+      error: error.message
+    });
+  }
+};
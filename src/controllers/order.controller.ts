@@ -4,6 +4,10 @@ import { Order } from '../models/order.model';
 import { Cart } from '../models/cart.model';
 import { Product } from '../models/product.model';
 import { AuthRequest } from '../middlewares/authenticate';
+import { deductStock, restoreStock, getAvailableStock, AvailableStock } from '../service/stock.service';
+import { buildMovement, recordStockMovements } from '../service/inventory.service';
+import { sendStockAlerts } from '../service/stockAlert.service';
+import { getReservedQuantity, releaseAllReservations } from '../service/reservation.service';
 
 /**
  * @swagger
@@ -61,7 +65,9 @@ export const createOrder = async (req: AuthRequest, res: Response) => {
     }
 
     // Prepare order items and check stock
+    const orderId = new mongoose.Types.ObjectId(); // Known up front for the inventory ledger
     const orderItems = [];
+    const movements = [];
     let totalAmount = 0;
 
     for (const cartItem of cart.items) {
@@ -71,30 +77,41 @@ export const createOrder = async (req: AuthRequest, res: Response) => {
         throw new Error(`Product ${cartItem.product._id} not found`);
       }
 
-      if (!product.inStock || product.quantity < cartItem.quantity) {
-        throw new Error(`Insufficient stock for ${product.name}`);
+      if (product.archivedAt) {
+        throw new Error(`${product.name} is no longer available`);
       }
 
-      // Update product quantity
-      product.quantity -= cartItem.quantity;
-      if (product.quantity === 0) {
-        product.inStock = false;
-      }
+      // Update product (or variant) quantity. The order uses the price in effect now,
+      // which can differ from the cart's if a sale started or ended in between.
+      // Stock reserved in other customers' carts isn't ours to take
+      const reservedByOthers = await getReservedQuantity(product._id, cartItem.variant, userId);
+      const price = deductStock(product, cartItem.variant, cartItem.quantity, reservedByOthers);
       await product.save({ session });
+      movements.push(buildMovement(product, cartItem.variant, -cartItem.quantity, {
+        reason: 'sale',
+        actor: userId,
+        order: orderId
+      }));
 
       // Add to order items
       orderItems.push({
         product: product._id,
+        ...(cartItem.variant && {
+          variant: cartItem.variant,
+          sku: cartItem.sku,
+          variantName: cartItem.variantName
+        }),
         quantity: cartItem.quantity,
-        price: cartItem.price,
+        price,
         name: product.name
       });
 
-      totalAmount += cartItem.price * cartItem.quantity;
+      totalAmount += price * cartItem.quantity;
     }
 
     // Create order
     const order = await Order.create([{
+      _id: orderId,
       user: userId,
       items: orderItems,
       totalAmount,
@@ -102,6 +119,7 @@ export const createOrder = async (req: AuthRequest, res: Response) => {
       status: 'pending',
       paymentStatus: 'pending'
     }], { session });
+    await recordStockMovements(movements, session);
 
     // Clear cart after successful order
     cart.items = [];
@@ -110,6 +128,12 @@ export const createOrder = async (req: AuthRequest, res: Response) => {
     // Commit transaction
     await session.commitTransaction();
 
+    // The stock is now taken for real
+    await releaseAllReservations(userId);
+
+    // Low-stock alerts go out in the background
+    sendStockAlerts(movements);
+
     // Populate order for response
     const createdOrder = order[0];
     if (createdOrder) {
@@ -258,14 +282,23 @@ export const cancelOrder = async (req: AuthRequest, res: Response) => {
     }
 
     // Restore product quantities
+    const movements = [];
+    const availableBefore = new Map<string, AvailableStock>();
     for (const item of order.items) {
       const product = await Product.findById(item.product).session(session);
-      if (product) {
-        product.quantity += item.quantity;
-        product.inStock = true;
+      if (product && !availableBefore.has(String(product._id))) {
+        availableBefore.set(String(product._id), getAvailableStock(product));
+      }
+      if (product && restoreStock(product, item.variant, item.quantity)) {
         await product.save({ session });
+        movements.push(buildMovement(product, item.variant, item.quantity, {
+          reason: 'cancellation',
+          actor: userId,
+          order: order._id
+        }));
       }
     }
+    await recordStockMovements(movements, session);
 
     // Update order status
     order.status = 'cancelled';
@@ -273,6 +306,9 @@ export const cancelOrder = async (req: AuthRequest, res: Response) => {
 
     await session.commitTransaction();
 
+    // Back-in-stock emails go out in the background
+    sendStockAlerts(movements, availableBefore);
+
     res.status(200).json({
       success: true,
       message: 'Order cancelled successfully',
@@ -1,24 +1,212 @@
 import { Request, Response } from "express";
-import { Product } from "../models/product.model";
-import cloudinary from "../config/cloudinary.config";
+import mongoose, { Types } from "mongoose";
+import { Product, IProduct, PRODUCT_SEARCH_WEIGHTS } from "../models/product.model";
+import { Category } from "../models/category.model";
+import { findCategory, getCategoryIdsWithDescendants } from "../service/category.service";
+import { importProductsCsv, writeProductsCsv } from "../service/productCsv.service";
+import { removeProductFromCarts } from "../service/cart.service";
+import {
+  getEffectivePrice,
+  getPriceSnapshots,
+  recordPriceChanges,
+  getPriceAt,
+  effectivePriceExpression,
+  PriceSnapshot,
+} from "../service/price.service";
+import {
+  getStockLevels,
+  diffStockLevels,
+  recordStockMovements,
+  StockLevels,
+} from "../service/inventory.service";
+import { getAvailableStock, AvailableStock } from "../service/stock.service";
+import { sendStockAlerts } from "../service/stockAlert.service";
+import { withAvailableQuantities } from "../service/reservation.service";
+import { PriceHistory } from "../models/priceHistory.model";
+import { getUploadedFiles, deleteStoredFiles, discardUploads } from "../service/storage.service";
+import {
+  storeProductImages,
+  getImageFileUrls,
+  StoredProductImage,
+} from "../service/productImage.service";
+import { AuthRequest } from "../middlewares/authenticate";
+import { getPagination, buildPagination, escapeRegex, parseDate } from "../utils/query.helper";
+import {
+  tokenize,
+  matchText,
+  fuzzyPattern,
+  highlight,
+  highlightSnippet,
+  MAX_FUZZY_TERM_LENGTH,
+} from "../utils/search.helper";
+
+// Typo-tolerant matching only runs for queries up to this many words
+const FUZZY_MAX_TERMS = 3;
+// Upper bound on products scored in memory by the typo-tolerant fallback
+const FUZZY_CANDIDATE_LIMIT = 200;
+const SUGGEST_DEFAULT_LIMIT = 8;
+const SUGGEST_MAX_LIMIT = 20;
+
+// `effectivePrice` is the current price, sale included; it is computed in the query
+const PRODUCT_SORT_OPTIONS: Record<string, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1, _id: -1 },
+  price_asc: { effectivePrice: 1, _id: 1 },
+  price_desc: { effectivePrice: -1, _id: 1 },
+  name_asc: { name: 1, _id: 1 },
+  name_desc: { name: -1, _id: 1 },
+  rating: { ratingAverage: -1, ratingCount: -1, _id: 1 },
+};
+
+// Parse a price query param; undefined when missing, NaN when not a valid amount
+const parsePrice = (value: unknown) => {
+  if (value === undefined || value === "") return undefined;
+  const price = Number(value);
+  return price >= 0 ? price : NaN;
+};
+
+// Build the catalog filter from ?category=&minPrice=&maxPrice=&inStock=&minRating=
+// Returns an error message instead when the query is invalid.
+const buildCatalogFilter = async (query: Record<string, any>) => {
+  // Archived (deleted) products never show up in the catalog
+  const filter: any = { archivedAt: null };
+
+  if (query.category) {
+    // Comma separated ids or slugs; each also matches everything nested under it
+    const categories = String(query.category)
+      .split(",")
+      .map((category) => category.trim())
+      .filter(Boolean);
+    filter.category = { $in: await getCategoryIdsWithDescendants(categories) };
+  }
+
+  const minPrice = parsePrice(query.minPrice);
+  const maxPrice = parsePrice(query.maxPrice);
+  if (Number.isNaN(minPrice) || Number.isNaN(maxPrice)) {
+    return { error: "minPrice and maxPrice must be non-negative numbers" };
+  }
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    return { error: "minPrice cannot be greater than maxPrice" };
+  }
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    // On what the product costs now, so a product on sale matches by its sale price
+    const price = effectivePriceExpression();
+    filter.$expr = {
+      $and: [
+        ...(minPrice !== undefined ? [{ $gte: [price, minPrice] }] : []),
+        ...(maxPrice !== undefined ? [{ $lte: [price, maxPrice] }] : []),
+      ],
+    };
+  }
+
+  if (query.inStock === "true") {
+    filter.inStock = true;
+    filter.quantity = { $gt: 0 };
+  }
+
+  if (query.minRating !== undefined && query.minRating !== "") {
+    const minRating = Number(query.minRating);
+    if (!(minRating >= 1 && minRating <= 5)) {
+      return { error: "minRating must be between 1 and 5" };
+    }
+    filter.ratingAverage = { $gte: minRating };
+  }
+
+  return { filter };
+};
 
 /**
  * @swagger
  * /api/v1/products:
  *   get:
- *     summary: Get all products
+ *     summary: Get products (filtered, sorted, paginated)
  *     tags: [Products]
+ *     parameters:
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Category id or slug, or a comma separated list. Includes all subcategories.
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *         description: On the current price (a running sale's price counts)
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *         description: On the current price (a running sale's price counts)
+ *       - in: query
+ *         name: inStock
+ *         schema:
+ *           type: boolean
+ *         description: Only products that can currently be bought
+ *       - in: query
+ *         name: minRating
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Only products with at least this average review rating
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, price_asc, price_desc, name_asc, name_desc, rating]
+ *           default: newest
+ *         description: Price sorts use the current price, sale included
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
  *     responses:
  *       200:
- *         description: List of all products
+ *         description: Page of products with pagination metadata. `availableQuantity` (also per variant) is the stock not reserved in customers' carts.
+ *       400:
+ *         description: Invalid filter
  */
 export const getAllProducts = async (req: Request, res: Response) => {
   try {
-    const products = await Product.find();
+    const { page, limit, skip } = getPagination(req.query, 20);
+    const { filter, error } = await buildCatalogFilter(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error,
+      });
+    }
+
+    const sort = PRODUCT_SORT_OPTIONS[String(req.query.sort)] || PRODUCT_SORT_OPTIONS.newest!;
+
+    // Price sorts need the computed price, so they run as an aggregation
+    const findProducts = "effectivePrice" in sort
+      ? Product.aggregate([
+          { $match: filter },
+          { $addFields: { effectivePrice: effectivePriceExpression() } },
+          { $sort: sort },
+          { $skip: skip },
+          { $limit: limit },
+          { $project: { effectivePrice: 0 } },
+        ]).then((docs) => docs.map((doc) => Product.hydrate(doc)))
+      : Product.find(filter).sort(sort).skip(skip).limit(limit);
+
+    const [products, totalProducts] = await Promise.all([
+      findProducts,
+      Product.countDocuments(filter),
+    ]);
 
     res.status(200).json({
       success: true,
-      data: products,
+      data: await withAvailableQuantities(products),
+      pagination: buildPagination(page, limit, totalProducts),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -29,6 +217,320 @@ export const getAllProducts = async (req: Request, res: Response) => {
   }
 };
 
+// `options`, `variants` and `sale` arrive as JSON strings in multipart/form-data requests.
+// `sale: null` removes a sale.
+const parseJsonFields = (body: Record<string, any>) => {
+  const fields: Record<string, any> = {};
+  for (const field of ["options", "variants", "sale"]) {
+    const value = body[field];
+    if (value === undefined || value === "") continue;
+    fields[field] = typeof value === "string" ? JSON.parse(value) : value;
+  }
+  return fields;
+};
+
+// Every file URL a product refers to (its own images with their sizes, and its variants' images)
+const getProductFileUrls = (product: IProduct) => [
+  ...product.images.flatMap(getImageFileUrls),
+  ...product.variants.flatMap((variant) => variant.images),
+];
+
+// Save a product and log its price and stock changes in one transaction, so neither
+// history can miss a change. `previous` is taken before the edit (empty when new).
+// Stock alerts (low stock, back in stock) follow in the background.
+const saveProductWithHistory = async (
+  product: IProduct,
+  previous: { prices: PriceSnapshot[]; stock: StockLevels; available: AvailableStock },
+  { isNew, changedBy }: { isNew: boolean; changedBy?: string | undefined }
+) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    await product.save({ session });
+    await recordPriceChanges(
+      [{ previous: previous.prices, product }],
+      { source: isNew ? "create" : "update", changedBy },
+      session
+    );
+    const movements = diffStockLevels(product, previous.stock, {
+      reason: isNew ? "restock" : "adjustment",
+      actor: changedBy,
+      note: isNew ? "Initial stock" : "Product edit",
+    });
+    await recordStockMovements(movements, session);
+    await session.commitTransaction();
+
+    sendStockAlerts(movements, new Map([[String(product._id), previous.available]]));
+    return product;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// 400 for bad input (invalid JSON, failed validation, duplicate SKU), 500 otherwise
+const sendProductWriteError = (res: Response, message: string, error: any) => {
+  if (error instanceof SyntaxError) {
+    return res.status(400).json({
+      success: false,
+      message: "options, variants and sale must be valid JSON",
+    });
+  }
+
+  if (error.name === "ValidationError") {
+    return res.status(400).json({
+      success: false,
+      message: "Validation failed",
+      errors: Object.values(error.errors).map((err: any) => err.message),
+    });
+  }
+
+  if (error.code === 11000) {
+    return res.status(400).json({
+      success: false,
+      message: "A product or variant with this SKU already exists",
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    message,
+    error: error.message
+  });
+};
+
+// Add relevance and highlighted fields to a search hit
+const toSearchResult = (product: any, terms: string[], relevance: number) => {
+  const { score, ...data } = product;
+  // Lean results don't have the currentPrice/compareAtPrice virtuals
+  const { price: currentPrice, compareAtPrice } = getEffectivePrice(product);
+  return {
+    ...data,
+    currentPrice,
+    ...(compareAtPrice !== undefined && { compareAtPrice }),
+    relevance: Math.round(relevance * 100) / 100,
+    highlights: {
+      name: highlight(product.name, terms),
+      ...(product.categoryName && { category: highlight(product.categoryName, terms) }),
+      ...(product.description && {
+        description: highlightSnippet(product.description, terms),
+      }),
+    },
+  };
+};
+
+/**
+ * @swagger
+ * /api/v1/products/search:
+ *   get:
+ *     summary: Search products
+ *     description: Searches name, category and description (in that order of importance). Short queries that find nothing are retried with typo tolerance. Accepts the same filters as GET /products. Highlights wrap matched words in `<mark>` tags (the rest of the text is HTML escaped).
+ *     tags: [Products]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *         description: On the current price (a running sale's price counts)
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *         description: On the current price (a running sale's price counts)
+ *       - in: query
+ *         name: inStock
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: minRating
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Matching products, best first. `matchType` is "exact" or "fuzzy".
+ *       400:
+ *         description: Missing query or invalid filter
+ */
+export const searchProducts = async (req: Request, res: Response) => {
+  try {
+    const query = String(req.query.q || "").trim();
+    const terms = tokenize(query);
+
+    if (terms.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Search query (q) is required",
+      });
+    }
+
+    const { page, limit, skip } = getPagination(req.query, 20);
+    const { filter, error } = await buildCatalogFilter(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error,
+      });
+    }
+
+    // 1. Text index search, ranked by the weighted text score
+    const textFilter = { ...filter, $text: { $search: terms.join(" ") } };
+    const [products, totalProducts] = await Promise.all([
+      Product.find(textFilter, { score: { $meta: "textScore" } })
+        .sort({ score: { $meta: "textScore" }, _id: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      Product.countDocuments(textFilter),
+    ]);
+
+    if (
+      totalProducts > 0 ||
+      terms.length > FUZZY_MAX_TERMS ||
+      terms.some((term) => term.length > MAX_FUZZY_TERM_LENGTH)
+    ) {
+      return res.status(200).json({
+        success: true,
+        matchType: "exact",
+        data: await withAvailableQuantities(
+          products.map((product: any) => toSearchResult(product, terms, product.score))
+        ),
+        pagination: buildPagination(page, limit, totalProducts),
+      });
+    }
+
+    // 2. Nothing found: retry short queries allowing typos in each word
+    const fields = Object.keys(PRODUCT_SEARCH_WEIGHTS) as (keyof typeof PRODUCT_SEARCH_WEIGHTS)[];
+    const candidates = await Product.find({
+      ...filter,
+      $and: terms.map((term) => {
+        const pattern = fuzzyPattern(term);
+        return { $or: fields.map((field) => ({ [field]: pattern })) };
+      }),
+    })
+      .limit(FUZZY_CANDIDATE_LIMIT)
+      .lean();
+
+    // Score each candidate the same way the text index weighs fields
+    const ranked = candidates
+      .map((product: any) => ({
+        product,
+        relevance: terms.reduce(
+          (total, term) =>
+            total +
+            Math.max(...fields.map((field) => PRODUCT_SEARCH_WEIGHTS[field] * matchText(product[field], term))),
+          0
+        ),
+      }))
+      .filter(({ relevance }) => relevance > 0)
+      .sort((a, b) => b.relevance - a.relevance);
+
+    res.status(200).json({
+      success: true,
+      matchType: "fuzzy",
+      data: await withAvailableQuantities(
+        ranked
+          .slice(skip, skip + limit)
+          .map(({ product, relevance }) => toSearchResult(product, terms, relevance))
+      ),
+      pagination: buildPagination(page, limit, ranked.length),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to search products",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/suggest:
+ *   get:
+ *     summary: Autocomplete product names and categories
+ *     tags: [Products]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: What the user has typed so far
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 8
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Product names and categories starting with q
+ */
+export const suggestProducts = async (req: Request, res: Response) => {
+  try {
+    const query = String(req.query.q || "").trim();
+
+    if (!query) {
+      return res.status(200).json({
+        success: true,
+        data: { products: [], categories: [] },
+      });
+    }
+
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || SUGGEST_DEFAULT_LIMIT, 1),
+      SUGGEST_MAX_LIMIT
+    );
+    const prefix = new RegExp(`^${escapeRegex(query)}`, "i");
+
+    const [products, categories] = await Promise.all([
+      Product.find({ name: prefix, archivedAt: null }).select("name").sort({ name: 1 }).limit(limit).lean(),
+      Category.find({ name: prefix }).select("name slug").sort({ name: 1 }).limit(limit).lean(),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        products: products.map((product) => ({ id: product._id, name: product.name })),
+        categories: categories.map((category) => ({
+          id: category._id,
+          name: category.name,
+          slug: category.slug,
+        })),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to load suggestions",
+      error: error.message
+    });
+  }
+};
+
 /**
  * @swagger
  * /api/v1/products/{id}:
@@ -44,7 +546,7 @@ export const getAllProducts = async (req: Request, res: Response) => {
  *         description: Product ID
  *     responses:
  *       200:
- *         description: Product found
+ *         description: Product found, with `availableQuantity` (stock not reserved in carts)
  *       404:
  *         description: Product not found
  */
@@ -60,9 +562,11 @@ export const getProductById = async (req: Request, res: Response) => {
       });
     }
 
+    const [data] = await withAvailableQuantities([product]);
+
     res.status(200).json({
       success: true,
-      data: product,
+      data,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -93,6 +597,9 @@ export const getProductById = async (req: Request, res: Response) => {
  *               - category
  *               - quantity
  *             properties:
+ *               sku:
+ *                 type: string
+ *                 example: IPH-15-128
  *               name:
  *                 type: string
  *                 example: iPhone 15
@@ -104,10 +611,28 @@ export const getProductById = async (req: Request, res: Response) => {
  *                 example: Latest iPhone model
  *               category:
  *                 type: string
- *                 example: Electronics
+ *                 example: electronics
+ *                 description: Category id or slug
  *               quantity:
  *                 type: number
  *                 example: 50
+ *                 description: Ignored when variants are given (stock is the sum of the variants)
+ *               lowStockThreshold:
+ *                 type: number
+ *                 example: 10
+ *                 description: Email the inventory team when stock drops below this
+ *               options:
+ *                 type: string
+ *                 description: JSON array of option axes
+ *                 example: '[{"name":"Size","values":["S","M","L"]}]'
+ *               variants:
+ *                 type: string
+ *                 description: JSON array of variants, each with sku, options, optional price override, quantity and images
+ *                 example: '[{"sku":"TS-S","options":{"Size":"S"},"quantity":10},{"sku":"TS-M","options":{"Size":"M"},"price":21,"quantity":5}]'
+ *               sale:
+ *                 type: string
+ *                 description: JSON sale price with optional start and end time. Variants with their own price can have their own sale.
+ *                 example: '{"price":799.99,"startsAt":"2026-11-27T00:00:00Z","endsAt":"2026-11-30T00:00:00Z"}'
  *               images:
  *                 type: array
  *                 items:
@@ -119,66 +644,70 @@ export const getProductById = async (req: Request, res: Response) => {
  *         description: Product created successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - insufficient permissions
  */
-export const createProduct = async (req: Request, res: Response) => {
+export const createProduct = async (req: AuthRequest, res: Response) => {
+  const uploadedFiles = getUploadedFiles(req);
+  let storedImages: StoredProductImage[] = [];
+
   try {
     // Extract product data from request body
-    const { name, price, description, category, quantity, images: bodyImages } = req.body;
-
-    // Debug: Log incoming data for troubleshooting
-    console.log('Files:', req.files);
-    console.log('File:', req.file);
-    console.log('Body images:', bodyImages);
-
-    // Handle image uploads with Cloudinary cloud storage
-    let images: string[] = [];
-    
-    if (req.files && Array.isArray(req.files)) {
-
-
-
-
-
-      
-      // Case 1: Multiple files uploaded via form-data
-      // Create upload promises for all files simultaneously
-      const uploadPromises = req.files.map(file => 
-        cloudinary.uploader.upload(file.path, {
-          folder: 'products',        // Organize images in 'products' folder
-          resource_type: 'image'     // Specify this is an image upload
-        })
-      );
-      // Wait for all uploads to complete
-      const uploadResults = await Promise.all(uploadPromises);
-      // Extract secure URLs from Cloudinary response
-      images = uploadResults.map(result => result.secure_url);
-    } else if (req.file) {
-      // Case 2: Single file uploaded via form-data
-      const uploadResult = await cloudinary.uploader.upload(req.file.path, {
-        folder: 'products',
-        resource_type: 'image'
+    const {
+      sku,
+      name,
+      price,
+      description,
+      category,
+      quantity,
+      lowStockThreshold,
+      images: bodyImages,
+    } = req.body;
+    const jsonFields = parseJsonFields(req.body);
+
+    // Category can be given by id or slug
+    const productCategory = category ? await findCategory(String(category)) : null;
+    if (!productCategory) {
+      await discardUploads(uploadedFiles);
+      return res.status(400).json({
+        success: false,
+        message: "Category not found",
       });
-      // Store single image URL in array
-      images = [uploadResult.secure_url];
+    }
+
+    // Handle image uploads with the configured storage driver (local disk or Cloudinary)
+    let images: StoredProductImage[] = [];
+
+    if (uploadedFiles.length > 0) {
+      // Case 1: Files uploaded via form-data (resized and stored in parallel)
+      storedImages = await storeProductImages(uploadedFiles, "products");
+      images = storedImages;
     } else if (bodyImages) {
-      // Case 3: Image URLs provided in request body (no file upload)
+      // Case 2: Image URLs provided in request body (no file upload, no resized sizes)
       // Convert single URL to array or use existing array
-      images = Array.isArray(bodyImages) ? bodyImages : [bodyImages];
+      images = (Array.isArray(bodyImages) ? bodyImages : [bodyImages]).map((url) => ({ url }));
     }
 
-    // Debug: Log final image URLs that will be saved
-    console.log('Final images array:', images);
-
-    // Create new product in MongoDB database
-    const newProduct = await Product.create({
+    // Create new product in MongoDB database (its first price and stock go into the histories)
+    const newProduct = new Product({
+      sku,
       name,
       price,
       description,
-      category,
+      category: productCategory._id,
+      categoryName: productCategory.name,
       quantity,
-      images, // Store Cloudinary URLs (e.g., https://res.cloudinary.com/...)
+      lowStockThreshold,
+      // Stored file URLs (e.g., https://res.cloudinary.com/... or /uploads/products/...)
+      images,
       inStock: true,
+      ...jsonFields,
     });
+    await saveProductWithHistory(
+      newProduct,
+      { prices: [], stock: new Map(), available: new Map() },
+      { isNew: true, changedBy: req.user?.id }
+    );
 
     // Clean up response: Remove MongoDB internal fields (_id, __v)
     const { _id, __v, ...productData } = newProduct.toObject();
@@ -190,11 +719,10 @@ export const createProduct = async (req: Request, res: Response) => {
       message: "Product created successfully",
     });
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: "Failed to create product",
-      error: error.message
-    });
+    // The product wasn't created, so nothing references these files
+    await deleteStoredFiles(storedImages.flatMap(getImageFileUrls));
+    await discardUploads(uploadedFiles);
+    sendProductWriteError(res, "Failed to create product", error);
   }
 };
 
@@ -220,6 +748,8 @@ export const createProduct = async (req: Request, res: Response) => {
  *           schema:
  *             type: object
  *             properties:
+ *               sku:
+ *                 type: string
  *               name:
  *                 type: string
  *               price:
@@ -228,8 +758,33 @@ export const createProduct = async (req: Request, res: Response) => {
  *                 type: string
  *               category:
  *                 type: string
+ *                 description: Category id or slug
  *               quantity:
  *                 type: number
+ *               lowStockThreshold:
+ *                 type: number
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               variants:
+ *                 type: array
+ *                 description: Replaces all variants. Include a variant's _id to keep it (and its cart/order references).
+ *                 items:
+ *                   type: object
+ *               sale:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Scheduled sale; null removes it. Price changes are kept in the price history.
+ *                 properties:
+ *                   price:
+ *                     type: number
+ *                   startsAt:
+ *                     type: string
+ *                     format: date-time
+ *                   endsAt:
+ *                     type: string
+ *                     format: date-time
  *     responses:
  *       200:
  *         description: Product updated successfully
@@ -237,57 +792,83 @@ export const createProduct = async (req: Request, res: Response) => {
  *         description: Product not found
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - insufficient permissions
  */
-export const updateProduct = async (req: Request, res: Response) => {
+export const updateProduct = async (req: AuthRequest, res: Response) => {
+  const uploadedFiles = getUploadedFiles(req);
+  let storedImages: StoredProductImage[] = [];
+
   try {
     const id = req.params.id;
-    const { name, price, description, category, quantity } = req.body;
+    const { sku, name, price, description, category, quantity, lowStockThreshold } = req.body;
+    const jsonFields = parseJsonFields(req.body);
 
     // Find existing product
     const product = await Product.findById(id);
     if (!product) {
+      await discardUploads(uploadedFiles);
       return res.status(404).json({
         success: false,
         message: "Product not found"
       });
     }
 
+    const productCategory = category ? await findCategory(String(category)) : null;
+    if (category && !productCategory) {
+      await discardUploads(uploadedFiles);
+      return res.status(400).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+
     // Handle new image uploads if provided
-    let images = product.images; // Keep existing images by default
-    
-    if (req.files && Array.isArray(req.files)) {
-      // Multiple new files uploaded - replace all images
-      images = req.files.map(file => `/uploads/${file.filename}`);
-    } else if (req.file) {
-      // Single new file uploaded - replace all images
-      images = [`/uploads/${req.file.filename}`];
+    const previousFiles = getProductFileUrls(product);
+    const previousPrices = getPriceSnapshots(product);
+    const previousStock = getStockLevels(product);
+    const previousAvailable = getAvailableStock(product);
+
+    if (uploadedFiles.length > 0) {
+      // New files uploaded - replace all images (existing ones are kept otherwise)
+      storedImages = await storeProductImages(uploadedFiles, "products");
+      product.set("images", storedImages);
     }
 
-    // Update product
-    const updatedProduct = await Product.findByIdAndUpdate(
-      id,
-      {
-        name: name || product.name,
-        price: price || product.price,
-        description: description || product.description,
-        category: category || product.category,
-        quantity: quantity || product.quantity,
-        images
-      },
-      { new: true, runValidators: true }
+    // Update product (saved as a document so variant validation and stock totals run)
+    product.set({
+      sku: sku || product.sku,
+      name: name || product.name,
+      price: price || product.price,
+      description: description || product.description,
+      ...(productCategory && {
+        category: productCategory._id,
+        categoryName: productCategory.name,
+      }),
+      quantity: quantity || product.quantity,
+      ...(lowStockThreshold !== undefined && lowStockThreshold !== "" && { lowStockThreshold }),
+      ...jsonFields
+    });
+    const updatedProduct = await saveProductWithHistory(
+      product,
+      { prices: previousPrices, stock: previousStock, available: previousAvailable },
+      { isNew: false, changedBy: req.user?.id }
     );
 
+    // Delete files the product no longer uses (replaced images, removed variants)
+    const currentFiles = new Set(getProductFileUrls(updatedProduct));
+    await deleteStoredFiles(previousFiles.filter((url) => !currentFiles.has(url)));
+
     res.status(200).json({
       success: true,
       data: updatedProduct,
       message: "Product updated successfully",
     });
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: "Failed to update product",
-      error: error.message
-    });
+    // The update didn't happen, so the newly stored files are unused
+    await deleteStoredFiles(storedImages.flatMap(getImageFileUrls));
+    await discardUploads(uploadedFiles);
+    sendProductWriteError(res, "Failed to update product", error);
   }
 };
 
@@ -295,7 +876,8 @@ export const updateProduct = async (req: Request, res: Response) => {
  * @swagger
  * /api/v1/products/{id}:
  *   delete:
- *     summary: Delete a product
+ *     summary: Delete (archive) a product
+ *     description: The product is hidden from the catalog and removed from customers' carts (with a notice), but stays available to order history. It can be brought back with the restore endpoint.
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -313,11 +895,17 @@ export const updateProduct = async (req: Request, res: Response) => {
  *         description: Product not found
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - insufficient permissions
  */
-export const deleteProduct = async (req: Request, res: Response) => {
+export const deleteProduct = async (req: AuthRequest, res: Response) => {
   try {
-    const id = req.params.id;
-    const product = await Product.findByIdAndDelete(id);
+    const id = req.params.id as string;
+    const product = await Product.findOneAndUpdate(
+      { _id: id, archivedAt: null },
+      { archivedAt: new Date(), archivedBy: req.user?.id },
+      { new: true }
+    );
 
     if (!product) {
       return res.status(404).json({
@@ -326,9 +914,12 @@ export const deleteProduct = async (req: Request, res: Response) => {
       });
     }
 
+    const affectedCarts = await removeProductFromCarts(product._id as Types.ObjectId, product.name);
+
     res.status(200).json({
       success: true,
       message: "Product deleted successfully",
+      data: { archivedAt: product.archivedAt, removedFromCarts: affectedCarts },
     });
   } catch (error: any) {
     res.status(500).json({
@@ -338,3 +929,308 @@ export const deleteProduct = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * @swagger
+ * /api/v1/products/archived:
+ *   get:
+ *     summary: Get archived (deleted) products
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Archived products, most recently archived first
+ */
+export const getArchivedProducts = async (req: Request, res: Response) => {
+  try {
+    const { page, limit, skip } = getPagination(req.query, 20);
+    const filter = { archivedAt: { $ne: null } };
+
+    const [products, totalProducts] = await Promise.all([
+      Product.find(filter)
+        .populate("archivedBy", "firstName lastName email")
+        .sort({ archivedAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Product.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: products,
+      pagination: buildPagination(page, limit, totalProducts),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to retrieve archived products",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/restore:
+ *   post:
+ *     summary: Restore an archived product to the catalog
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product restored
+ *       404:
+ *         description: No archived product with this id
+ */
+export const restoreProduct = async (req: Request, res: Response) => {
+  try {
+    const product = await Product.findOneAndUpdate(
+      { _id: req.params.id as string, archivedAt: { $ne: null } },
+      { archivedAt: null, $unset: { archivedBy: 1 } },
+      { new: true }
+    );
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: "Archived product not found",
+      });
+    }
+
+    // Nothing could be bought while it was archived
+    sendStockAlerts([], new Map([[String(product._id), new Map()]]));
+
+    res.status(200).json({
+      success: true,
+      data: product,
+      message: "Product restored successfully",
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to restore product",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/price-history:
+ *   get:
+ *     summary: Price history of a product
+ *     description: Every change to the regular price or sale of the product and its variants, newest first. Pass `at` to also get what the product (or `variantId`) cost at that moment.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *         description: Only changes to this variant
+ *       - in: query
+ *         name: at
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Price changes. `priceAt` is null when the history doesn't go back to `at`.
+ *       400:
+ *         description: Invalid date
+ *       404:
+ *         description: Product not found
+ */
+export const getPriceHistory = async (req: Request, res: Response) => {
+  try {
+    const productId = req.params.id as string;
+    const variantId = req.query.variantId ? String(req.query.variantId) : undefined;
+    const at = parseDate(req.query.at);
+
+    if (req.query.at && !at) {
+      return res.status(400).json({
+        success: false,
+        message: "at must be a valid date",
+      });
+    }
+
+    if (!(await Product.exists({ _id: productId }))) {
+      return res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+    }
+
+    const { page, limit, skip } = getPagination(req.query, 20);
+    const filter = { product: productId, ...(variantId && { variant: variantId }) };
+
+    const [entries, totalEntries, priceAt] = await Promise.all([
+      PriceHistory.find(filter)
+        .populate("changedBy", "firstName lastName email")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      PriceHistory.countDocuments(filter),
+      at ? getPriceAt(productId, variantId, at) : undefined,
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: entries,
+      ...(at && { priceAt }),
+      pagination: buildPagination(page, limit, totalEntries),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to retrieve price history",
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/import:
+ *   post:
+ *     summary: Bulk create/update products from a CSV file
+ *     description: |
+ *       Columns: sku, name, description, price, category (slug or id), quantity, images (URLs separated by "|").
+ *       Rows update the product with the same SKU (or, without a SKU, the same name) and create the rest; empty cells keep existing values.
+ *       Deleted (archived) products are never updated: a row with the SKU of one is an error.
+ *       Runs as a dry-run unless `dryRun=false`, returning a per-row report. Nothing is saved if any row has errors.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Import report (applied is true when the changes were saved)
+ *       400:
+ *         description: No file, or the CSV header is invalid
+ *       422:
+ *         description: Some rows failed validation; nothing was saved
+ */
+export const importProducts = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: "Upload a CSV file in the 'file' field",
+      });
+    }
+
+    const dryRun = req.query.dryRun !== "false";
+    const result = await importProductsCsv(req.file.buffer.toString("utf8"), dryRun, req.user?.id);
+
+    if ("error" in result) {
+      return res.status(400).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    const { report } = result;
+    const hasErrors = report.summary.failed > 0;
+
+    res.status(hasErrors && !dryRun ? 422 : 200).json({
+      success: !hasErrors,
+      message: hasErrors
+        ? `${report.summary.failed} rows have errors. Nothing was saved.`
+        : report.applied
+          ? "Products imported successfully"
+          : "Dry run passed. Run again with dryRun=false to save.",
+      data: report,
+    });
+  } catch (error: any) {
+    sendProductWriteError(res, "Failed to import products", error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/export:
+ *   get:
+ *     summary: Download the catalog as CSV
+ *     description: Same columns as the import, so the file can be edited and imported again. Variants and archived products are not included.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+export const exportProducts = async (req: Request, res: Response) => {
+  try {
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="products-${date}.csv"`);
+
+    await writeProductsCsv(res);
+    res.end();
+  } catch (error: any) {
+    // Once streaming has started the status can't change; just cut the download short
+    if (res.headersSent) {
+      console.error("Product export failed:", error);
+      return res.destroy(error);
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Failed to export products",
+      error: error.message
+    });
+  }
+};
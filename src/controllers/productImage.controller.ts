@@ -0,0 +1,431 @@
+import { Request, Response } from 'express';
+import { Product, IProduct, MAX_PRODUCT_IMAGES } from '../models/product.model';
+import { getUploadedFiles, deleteStoredFiles, discardUploads } from '../service/storage.service';
+import {
+  storeProductImages,
+  getImageFileUrls,
+  migrateStringImages,
+  StoredProductImage
+} from '../service/productImage.service';
+
+// Whether any variant still shows this image (variants keep their own URL list)
+const isUsedByVariant = (product: IProduct, url: string) =>
+  product.variants.some(variant => variant.images.includes(url));
+
+const sendImageResponse = (res: Response, product: IProduct, message: string) =>
+  res.status(200).json({
+    success: true,
+    message,
+    data: product.images
+  });
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images:
+ *   post:
+ *     summary: Add images to a product
+ *     description: Appends the uploaded images after the existing ones. A product can have at most 5 images in total. Each image also gets thumbnail, medium and large WebP sizes (see `sizes`), and metadata such as EXIF location is removed.
+ *     tags: [Product Images]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *               alt:
+ *                 type: string
+ *                 description: Alt text for the new images
+ *     responses:
+ *       201:
+ *         description: Images added; returns all product images
+ *       400:
+ *         description: No images uploaded, or the product would have more than 5 images
+ *       404:
+ *         description: Product not found
+ */
+export const addProductImages = async (req: Request, res: Response) => {
+  const uploadedFiles = getUploadedFiles(req);
+  let storedImages: StoredProductImage[] = [];
+
+  try {
+    const productId = req.params.id as string;
+
+    if (uploadedFiles.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload at least one image in the images field'
+      });
+    }
+
+    const product = await Product.findOne({ _id: productId, archivedAt: null }).select('images');
+    if (!product) {
+      await discardUploads(uploadedFiles);
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const slotsLeft = MAX_PRODUCT_IMAGES - product.images.length;
+    if (uploadedFiles.length > slotsLeft) {
+      await discardUploads(uploadedFiles);
+      return res.status(400).json({
+        success: false,
+        message: `A product can have at most ${MAX_PRODUCT_IMAGES} images. This product has room for ${slotsLeft} more.`
+      });
+    }
+
+    storedImages = await storeProductImages(uploadedFiles, 'products');
+    const alt = req.body?.alt;
+
+    // Only push while there is still room, in case another request added images meanwhile
+    const updatedProduct = await Product.findOneAndUpdate(
+      {
+        _id: productId,
+        [`images.${MAX_PRODUCT_IMAGES - storedImages.length}`]: { $exists: false }
+      },
+      {
+        $push: {
+          images: { $each: storedImages.map(image => ({ ...image, ...(alt && { alt }) })) }
+        }
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedProduct) {
+      await deleteStoredFiles(storedImages.flatMap(getImageFileUrls));
+      return res.status(400).json({
+        success: false,
+        message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Images added successfully',
+      data: updatedProduct.images
+    });
+  } catch (error: any) {
+    await deleteStoredFiles(storedImages.flatMap(getImageFileUrls));
+    await discardUploads(uploadedFiles);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add images',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/{imageId}:
+ *   delete:
+ *     summary: Delete one product image
+ *     tags: [Product Images]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Image deleted; returns the remaining images
+ *       404:
+ *         description: Product or image not found
+ */
+export const deleteProductImage = async (req: Request, res: Response) => {
+  try {
+    const imageId = req.params.imageId as string;
+
+    // Returns the product as it was before the pull, so we still know the URL
+    const product = await Product.findOneAndUpdate(
+      { _id: req.params.id as string, 'images._id': imageId },
+      { $pull: { images: { _id: imageId } } }
+    );
+
+    const image = product?.images.id(imageId);
+    if (!product || !image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image not found'
+      });
+    }
+
+    // Resized sizes are only ever used by this image
+    const files = getImageFileUrls(image);
+    await deleteStoredFiles(isUsedByVariant(product, image.url) ? files.slice(1) : files);
+
+    product.images.pull(imageId);
+    sendImageResponse(res, product, 'Image deleted successfully');
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete image',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/order:
+ *   put:
+ *     summary: Reorder product images
+ *     description: The first image becomes the primary image.
+ *     tags: [Product Images]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - imageIds
+ *             properties:
+ *               imageIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Every image id of the product, in the new order
+ *     responses:
+ *       200:
+ *         description: Images reordered
+ *       400:
+ *         description: imageIds must list every image exactly once
+ *       404:
+ *         description: Product not found
+ */
+export const reorderProductImages = async (req: Request, res: Response) => {
+  try {
+    const { imageIds } = req.body;
+
+    const product = await Product.findById(req.params.id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const currentIds = product.images.map(image => String(image._id));
+    const isPermutation =
+      Array.isArray(imageIds) &&
+      imageIds.length === currentIds.length &&
+      new Set(imageIds.map(String)).size === currentIds.length &&
+      imageIds.every((id: unknown) => currentIds.includes(String(id)));
+
+    if (!isPermutation) {
+      return res.status(400).json({
+        success: false,
+        message: 'imageIds must list every image of the product exactly once'
+      });
+    }
+
+    const reordered = imageIds.map((id: unknown) => product.images.id(String(id))!.toObject());
+    product.set('images', reordered);
+    await product.save();
+
+    sendImageResponse(res, product, 'Images reordered successfully');
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reorder images',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/{imageId}/primary:
+ *   put:
+ *     summary: Make an image the primary product image
+ *     description: Moves the image to the front; the others keep their order.
+ *     tags: [Product Images]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Primary image set
+ *       404:
+ *         description: Product or image not found
+ */
+export const setPrimaryProductImage = async (req: Request, res: Response) => {
+  try {
+    const imageId = req.params.imageId as string;
+
+    const product = await Product.findById(req.params.id);
+    const image = product?.images.id(imageId);
+    if (!product || !image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image not found'
+      });
+    }
+
+    const others = product.images.filter(other => !other._id.equals(image._id));
+    product.set('images', [image.toObject(), ...others.map(other => other.toObject())]);
+    await product.save();
+
+    sendImageResponse(res, product, 'Primary image updated successfully');
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to set primary image',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/{imageId}:
+ *   patch:
+ *     summary: Set an image's alt text
+ *     tags: [Product Images]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - alt
+ *             properties:
+ *               alt:
+ *                 type: string
+ *                 description: Empty string removes the alt text
+ *     responses:
+ *       200:
+ *         description: Alt text updated
+ *       400:
+ *         description: Alt text missing or too long
+ *       404:
+ *         description: Product or image not found
+ */
+export const updateProductImage = async (req: Request, res: Response) => {
+  try {
+    const imageId = req.params.imageId as string;
+    const alt = req.body?.alt;
+
+    if (typeof alt !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'alt is required'
+      });
+    }
+
+    const product = await Product.findById(req.params.id);
+    const image = product?.images.id(imageId);
+    if (!product || !image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image not found'
+      });
+    }
+
+    image.set('alt', alt.trim() || undefined);
+    await product.save();
+
+    sendImageResponse(res, product, 'Image updated successfully');
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: Object.values(error.errors).map((err: any) => err.message)
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update image',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/images/migrate:
+ *   post:
+ *     summary: Convert old plain-URL product images into image objects
+ *     description: Products saved before images had alt text stored them as URL strings. This stores them as image objects with permanent ids (the same ids the API already returned for them). Safe to run again.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Migration report
+ */
+export const migrateProductImages = async (req: Request, res: Response) => {
+  try {
+    const report = await migrateStringImages();
+
+    res.status(200).json({
+      success: true,
+      data: report,
+      message: 'Product images migrated'
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to migrate product images',
+      error: error.message
+    });
+  }
+};
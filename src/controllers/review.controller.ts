@@ -0,0 +1,459 @@
+import { Request, Response } from 'express';
+import { Review } from '../models/review.model';
+import { Product } from '../models/product.model';
+import { AuthRequest } from '../middlewares/authenticate';
+import { hasPurchasedProduct, refreshProductRating } from '../service/review.service';
+import { getPagination, buildPagination } from '../utils/query.helper';
+
+const REVIEW_SORT_OPTIONS: Record<string, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1 },
+  oldest: { createdAt: 1 },
+  highest: { rating: -1, createdAt: -1 },
+  lowest: { rating: 1, createdAt: -1 },
+};
+
+const sendReviewValidationError = (res: Response, error: any) =>
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: Object.values(error.errors).map((err: any) => err.message)
+  });
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews:
+ *   get:
+ *     summary: Get a product's reviews
+ *     tags: [Reviews]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Only reviews with this many stars
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, highest, lowest]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reviews with the product's rating summary
+ *       404:
+ *         description: Product not found
+ */
+export const getProductReviews = async (req: Request, res: Response) => {
+  try {
+    const productId = req.params.id as string;
+    const { page, limit, skip } = getPagination(req.query);
+
+    const product = await Product.findById(productId).select('ratingAverage ratingCount');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const filter: any = { product: productId, status: 'visible' };
+    if (req.query.rating) {
+      filter.rating = parseInt(req.query.rating as string);
+    }
+
+    const [reviews, totalReviews] = await Promise.all([
+      Review.find(filter)
+        .populate('user', 'firstName lastName')
+        .select('-hiddenAt -hiddenBy -hiddenReason')
+        .sort(REVIEW_SORT_OPTIONS[String(req.query.sort)] || REVIEW_SORT_OPTIONS.newest!)
+        .skip(skip)
+        .limit(limit),
+      Review.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: reviews,
+      summary: {
+        ratingAverage: product.ratingAverage,
+        ratingCount: product.ratingCount
+      },
+      pagination: buildPagination(page, limit, totalReviews)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews:
+ *   post:
+ *     summary: Review a product
+ *     description: Only customers with a delivered order containing the product can review it, once per product.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *               - title
+ *               - body
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Review created
+ *       403:
+ *         description: No delivered order contains this product
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: You have already reviewed this product
+ */
+export const createReview = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const productId = req.params.id as string;
+    const { rating, title, body } = req.body;
+
+    const product = await Product.exists({ _id: productId });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (!(await hasPurchasedProduct(userId, productId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only review products from your delivered orders'
+      });
+    }
+
+    if (await Review.exists({ product: productId, user: userId })) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product. Edit your existing review instead.'
+      });
+    }
+
+    const review = await Review.create({
+      product: productId,
+      user: userId,
+      rating,
+      title,
+      body
+    });
+
+    await refreshProductRating(productId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Review created successfully',
+      data: review
+    });
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return sendReviewValidationError(res, error);
+    }
+
+    // Two requests racing past the check above
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews/mine:
+ *   put:
+ *     summary: Edit your review of a product
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review updated
+ *       404:
+ *         description: You have not reviewed this product
+ */
+export const updateMyReview = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const productId = req.params.id as string;
+    const { rating, title, body } = req.body;
+
+    const review = await Review.findOne({ product: productId, user: userId });
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    if (rating !== undefined) review.rating = rating;
+    if (title !== undefined) review.title = title;
+    if (body !== undefined) review.body = body;
+    await review.save();
+
+    await refreshProductRating(productId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Review updated successfully',
+      data: review
+    });
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return sendReviewValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+// Admin functions
+
+/**
+ * @swagger
+ * /api/v1/reviews:
+ *   get:
+ *     summary: List reviews for moderation
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [visible, hidden]
+ *       - in: query
+ *         name: product
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ */
+export const getAllReviews = async (req: Request, res: Response) => {
+  try {
+    const { page, limit, skip } = getPagination(req.query);
+
+    const filter: any = {};
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.product) {
+      filter.product = req.query.product;
+    }
+    if (req.query.rating) {
+      filter.rating = parseInt(req.query.rating as string);
+    }
+
+    const [reviews, totalReviews] = await Promise.all([
+      Review.find(filter)
+        .populate('user', 'firstName lastName email')
+        .populate('product', 'name')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Review.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: reviews,
+      pagination: buildPagination(page, limit, totalReviews)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/reviews/{id}/hide:
+ *   put:
+ *     summary: Hide a review
+ *     description: Hidden reviews are not shown on the product and do not count towards its rating.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ */
+export const hideReview = async (req: AuthRequest, res: Response) => {
+  try {
+    const review = await Review.findByIdAndUpdate(
+      req.params.id,
+      {
+        status: 'hidden',
+        hiddenAt: new Date(),
+        hiddenBy: req.user?.id,
+        hiddenReason: req.body?.reason
+      },
+      { new: true }
+    );
+
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    await refreshProductRating(review.product);
+
+    res.status(200).json({
+      success: true,
+      message: 'Review hidden successfully',
+      data: review
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/reviews/{id}/unhide:
+ *   put:
+ *     summary: Show a hidden review again
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+export const unhideReview = async (req: Request, res: Response) => {
+  try {
+    const review = await Review.findByIdAndUpdate(
+      req.params.id,
+      {
+        status: 'visible',
+        $unset: { hiddenAt: 1, hiddenBy: 1, hiddenReason: 1 }
+      },
+      { new: true }
+    );
+
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    await refreshProductRating(review.product);
+
+    res.status(200).json({
+      success: true,
+      message: 'Review is visible again',
+      data: review
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
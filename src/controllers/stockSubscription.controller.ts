@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import { Product } from '../models/product.model';
+import { StockSubscription } from '../models/stockSubscription.model';
+import { AuthRequest } from '../middlewares/authenticate';
+import { resolveStockItem } from '../service/stock.service';
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/stock-subscriptions:
+ *   post:
+ *     summary: Get an email when an out-of-stock product is back
+ *     description: The subscription is removed once the email is sent. Subscribing twice has no effect.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               variantId:
+ *                 type: string
+ *                 description: Required for products with variants
+ *     responses:
+ *       201:
+ *         description: Subscribed
+ *       400:
+ *         description: The product is in stock, or a variant is missing
+ *       404:
+ *         description: Product not found
+ */
+export const subscribeToStock = async (req: AuthRequest, res: Response) => {
+  try {
+    const variantId = req.body?.variantId;
+
+    const product = await Product.findOne({ _id: req.params.id as string, archivedAt: null });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const stockItem = resolveStockItem(product, variantId);
+    if (stockItem.error !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: stockItem.error
+      });
+    }
+
+    if (stockItem.available > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `${stockItem.label} is in stock`
+      });
+    }
+
+    const filter = {
+      product: product._id,
+      variant: stockItem.variant?._id ?? null,
+      user: req.user?.id
+    };
+    const subscription = await StockSubscription.findOneAndUpdate(
+      filter,
+      { $setOnInsert: filter },
+      { upsert: true, new: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `We'll email you when ${stockItem.label} is back in stock`,
+      data: subscription
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to subscribe',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/stock-subscriptions:
+ *   delete:
+ *     summary: Stop waiting for a product to be back in stock
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               variantId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Unsubscribed
+ *       404:
+ *         description: No subscription for this product
+ */
+export const unsubscribeFromStock = async (req: AuthRequest, res: Response) => {
+  try {
+    const variantId = req.body?.variantId;
+
+    const result = await StockSubscription.deleteOne({
+      product: req.params.id as string,
+      variant: variantId || null,
+      user: req.user?.id
+    });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Subscription not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Unsubscribed successfully'
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unsubscribe',
+      error: error.message
+    });
+  }
+};
@@ -1,13 +1,92 @@
 import express from "express";
+import mongoose from "mongoose";
+import bcrypt from "bcryptjs";
 import type { Response, Request } from "express";
-import { User, IUser } from "../models/user.model";
+import { User, IUser, EDITABLE_PROFILE_FIELDS } from "../models/user.model";
+import { ROLES, PERMISSIONS, isTwoFactorRequired } from "../config/roles.config";
+import { revokeAllUserTokens } from "../service/token.service";
+import { unlockAccount, unlockIp } from "../service/loginProtection.service";
+import { Cart } from "../models/cart.model";
+import { Order } from "../models/order.model";
+import { RefreshToken } from "../models/refreshToken.model";
+import { ApiKey } from "../models/apiKey.model";
+import { Review } from "../models/review.model";
+import { StockSubscription } from "../models/stockSubscription.model";
+import { StockReservation } from "../models/stockReservation.model";
+import { Wishlist } from "../models/wishlist.model";
+import { refreshProductRating } from "../service/review.service";
+import { AuthRequest } from "../middlewares/authenticate";
+import {
+  getPagination,
+  buildPagination,
+  escapeRegex,
+  parseDate,
+} from "../utils/query.helper";
 
+const SALT_ROUNDS = parseInt(process.env.SALT_ROUNDS || "12");
+
+const USER_SORT_OPTIONS: Record<string, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1 },
+  oldest: { createdAt: 1 },
+  name: { firstName: 1, lastName: 1 },
+  email: { email: 1 },
+};
+
+// GET /users?search=&role=&status=&createdFrom=&createdTo=&sort=&page=&limit=
 async function getAllUsers(req: Request, res: Response) {
   try {
-    const users = await User.find().select('-password');
+    const { page, limit, skip } = getPagination(req.query);
+    const { search, role, status, sort } = req.query;
+
+    const filter: any = {};
+
+    // Search matches first name, last name, full name or email
+    if (search) {
+      const pattern = new RegExp(escapeRegex(String(search).trim()), 'i');
+      filter.$or = [
+        { firstName: pattern },
+        { lastName: pattern },
+        { email: pattern },
+        {
+          $expr: {
+            $regexMatch: {
+              input: { $concat: ['$firstName', ' ', '$lastName'] },
+              regex: pattern
+            }
+          }
+        }
+      ];
+    }
+
+    if (role) {
+      filter.role = role;
+    }
+
+    if (status) {
+      filter.status = status;
+    }
+
+    const createdFrom = parseDate(req.query.createdFrom);
+    const createdTo = parseDate(req.query.createdTo);
+    if (createdFrom || createdTo) {
+      filter.createdAt = {
+        ...(createdFrom && { $gte: createdFrom }),
+        ...(createdTo && { $lte: createdTo })
+      };
+    }
+
+    const users = await User.find(filter)
+      .select('-password')
+      .sort(USER_SORT_OPTIONS[String(sort)] || USER_SORT_OPTIONS.newest!)
+      .skip(skip)
+      .limit(limit);
+
+    const totalUsers = await User.countDocuments(filter);
+
     return res.status(200).json({
       success: true,
       users: users,
+      pagination: buildPagination(page, limit, totalUsers)
     });
   } catch (error: any) {
     return res.status(500).json({
@@ -40,13 +119,27 @@ async function getUserById(req: Request, res: Response) {
 
 async function createUser(req: Request, res: Response) {
   try {
-    const { firstName, lastName, email, password } = req.body;
-    
+    const { firstName, lastName, email, password, role } = req.body;
+
+    // Checked here, since the schema only ever sees the bcrypt hash
+    if (typeof password !== 'string' || password.length < 6) {
+      return res.status(400).json({
+        error: 'Password must be at least 6 characters'
+      });
+    }
+
+    if (role !== undefined && !ROLES.includes(role)) {
+      return res.status(400).json({
+        error: `Invalid role. Allowed roles: ${ROLES.join(', ')}`
+      });
+    }
+
     const user = await User.create({
       firstName,
       lastName,
       email,
-      password
+      password: await bcrypt.hash(password, SALT_ROUNDS),
+      role
     });
 
     const userResponse = user.toObject();
@@ -82,8 +175,21 @@ async function createUser(req: Request, res: Response) {
 async function updateUserById(req: Request, res: Response) {
   try {
     const id = req.params.id;
-    const updates = req.body;
-    
+
+    // Only whitelisted profile fields; password, email and role have their own flows
+    const updates: Record<string, any> = {};
+    for (const field of EDITABLE_PROFILE_FIELDS) {
+      if (req.body?.[field] !== undefined) {
+        updates[field] = req.body?.[field];
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        error: `Nothing to update. Editable fields: ${EDITABLE_PROFILE_FIELDS.join(', ')}`
+      });
+    }
+
     const user = await User.findByIdAndUpdate(
       id, 
       updates, 
@@ -107,25 +213,221 @@ async function updateUserById(req: Request, res: Response) {
   }
 }
 
-async function deleteUserById(req: Request, res: Response) {
+async function updateUserRole(req: Request, res: Response) {
   try {
     const id = req.params.id;
-    const user = await User.findByIdAndDelete(id);
+    const { role, permissions } = req.body;
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({
+        error: `Invalid role. Allowed roles: ${ROLES.join(', ')}`
+      });
+    }
+
+    if (permissions !== undefined && (
+      !Array.isArray(permissions) ||
+      !permissions.every((permission: any) => PERMISSIONS.includes(permission))
+    )) {
+      return res.status(400).json({
+        error: `Invalid permissions. Allowed permissions: ${PERMISSIONS.join(', ')}`
+      });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { role, ...(permissions !== undefined && { permissions }) },
+      { new: true, runValidators: true }
+    ).select('-password');
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // Existing sessions must not skip the 2FA enrollment the new role requires
+    if (isTwoFactorRequired(user.role) && !user.twoFactorEnabled) {
+      await revokeAllUserTokens(user.id);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "User role updated successfully",
+      user: user
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
+
+// Lift a login lockout early (optionally also for the IP address that caused it)
+async function unlockUser(req: Request, res: Response) {
+  try {
+    const id = req.params.id;
+    const { ip } = req.body || {};
+
+    const user = await User.findById(id).select('email');
 
     if (!user) {
       return res.status(404).json({ error: "User not found" });
     }
 
+    await unlockAccount(user.email);
+
+    if (ip) {
+      await unlockIp(ip);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "User unlocked successfully"
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
+
+async function suspendUser(req: AuthRequest, res: Response) {
+  try {
+    const id = req.params.id;
+    const { reason } = req.body || {};
+
+    if (id === req.user?.id) {
+      return res.status(400).json({ error: "You cannot suspend your own account" });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      {
+        status: 'suspended',
+        suspendedAt: new Date(),
+        ...(reason && { suspensionReason: reason })
+      },
+      { new: true, runValidators: true }
+    ).select('-password');
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // Kick the user out of every session right away
+    await revokeAllUserTokens(user.id);
+
+    return res.status(200).json({
+      success: true,
+      message: "User suspended successfully",
+      user: user
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
+
+async function reactivateUser(req: Request, res: Response) {
+  try {
+    const id = req.params.id;
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      {
+        status: 'active',
+        $unset: { suspendedAt: 1, suspensionReason: 1 }
+      },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "User reactivated successfully",
+      user: user
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
+
+// Delete the account and its cart and sessions. Orders are kept for accounting
+// but detached from the user and stripped of personal data.
+async function deleteUserById(req: AuthRequest, res: Response) {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const id = req.params.id;
+
+    if (id === req.user?.id) {
+      await session.abortTransaction();
+      return res.status(400).json({ error: "You cannot delete your own account" });
+    }
+
+    const user = await User.findByIdAndDelete(id, { session });
+
+    if (!user) {
+      await session.abortTransaction();
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    await Cart.deleteMany({ user: user._id }, { session });
+
+    const orders = await Order.updateMany(
+      { user: user._id },
+      {
+        $unset: { user: 1 },
+        $set: {
+          anonymizedAt: new Date(),
+          shippingAddress: {
+            street: 'REDACTED',
+            city: 'REDACTED',
+            country: 'REDACTED',
+            zipCode: 'REDACTED'
+          }
+        }
+      },
+      { session }
+    );
+
+    await RefreshToken.deleteMany({ user: user._id }, { session });
+    await ApiKey.deleteMany({ user: user._id }, { session });
+    await StockSubscription.deleteMany({ user: user._id }, { session });
+    await StockReservation.deleteMany({ user: user._id }, { session });
+    await Wishlist.deleteMany({ user: user._id }, { session });
+
+    // Reviews go with the account; ratings are recalculated once committed
+    const reviewedProducts = await Review.distinct('product', { user: user._id }).session(session);
+    await Review.deleteMany({ user: user._id }, { session });
+
+    await session.commitTransaction();
+
+    await Promise.all(reviewedProducts.map((productId) => refreshProductRating(productId)));
+
     return res.status(200).json({
       success: true,
-      message: "User deleted successfully"
+      message: "User deleted successfully",
+      anonymizedOrders: orders.modifiedCount
     });
   } catch (error: any) {
+    await session.abortTransaction();
     return res.status(500).json({
       error: 'Internal server error',
       message: error.message
     });
+  } finally {
+    session.endSession();
   }
 }
 
-export { getAllUsers, getUserById, createUser, updateUserById, deleteUserById };
+export { getAllUsers, getUserById, createUser, updateUserById, updateUserRole, unlockUser, suspendUser, reactivateUser, deleteUserById };
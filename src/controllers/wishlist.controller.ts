@@ -0,0 +1,633 @@
+import { Request, Response } from 'express';
+import { Wishlist } from '../models/wishlist.model';
+import { Product } from '../models/product.model';
+import { AuthRequest } from '../middlewares/authenticate';
+import { resolveStockItem } from '../service/stock.service';
+import { getEffectivePrice } from '../service/price.service';
+import { addItemToCart } from '../service/cart.service';
+import {
+  formatWishlist,
+  generateShareToken,
+  getShareUrl
+} from '../service/wishlist.service';
+
+const sendWishlistSaveError = (res: Response, error: any) => {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: Object.values(error.errors).map((err: any) => err.message)
+    });
+  }
+
+  if (error.code === 11000) {
+    return res.status(409).json({
+      success: false,
+      message: 'You already have a wishlist with this name'
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: error.message
+  });
+};
+
+const findOwnWishlist = (req: AuthRequest) =>
+  Wishlist.findOne({ _id: req.params.id as string, user: req.user?.id });
+
+const sendWishlistNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Wishlist not found'
+  });
+
+/**
+ * @swagger
+ * /api/v1/wishlists:
+ *   get:
+ *     summary: Get the user's wishlists
+ *     description: Each item has its `currentPrice`, the price when it was added (`priceWhenAdded`) and a `priceDrop` (amount and percent) when it got cheaper since.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Wishlists retrieved successfully
+ */
+export const getWishlists = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlists = await Wishlist.find({ user: req.user?.id }).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: await Promise.all(wishlists.map((wishlist) => formatWishlist(wishlist)))
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists:
+ *   post:
+ *     summary: Create a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       201:
+ *         description: Wishlist created
+ *       409:
+ *         description: The user already has a wishlist with this name
+ */
+export const createWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await Wishlist.create({
+      user: req.user?.id,
+      name: req.body?.name
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Wishlist created successfully',
+      data: await formatWishlist(wishlist)
+    });
+  } catch (error: any) {
+    sendWishlistSaveError(res, error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}:
+ *   get:
+ *     summary: Get one of the user's wishlists
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist retrieved successfully
+ *       404:
+ *         description: Wishlist not found
+ */
+export const getWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await findOwnWishlist(req);
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await formatWishlist(wishlist)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}:
+ *   patch:
+ *     summary: Rename a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist renamed
+ *       404:
+ *         description: Wishlist not found
+ *       409:
+ *         description: The user already has a wishlist with this name
+ */
+export const renameWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await findOwnWishlist(req);
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    wishlist.name = req.body?.name;
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist renamed successfully',
+      data: await formatWishlist(wishlist)
+    });
+  } catch (error: any) {
+    sendWishlistSaveError(res, error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}:
+ *   delete:
+ *     summary: Delete a wishlist
+ *     description: Its share link stops working.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist deleted
+ *       404:
+ *         description: Wishlist not found
+ */
+export const deleteWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await Wishlist.deleteOne({ _id: req.params.id as string, user: req.user?.id });
+    if (result.deletedCount === 0) {
+      return sendWishlistNotFound(res);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist deleted successfully'
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}/items:
+ *   post:
+ *     summary: Add a product to a wishlist
+ *     description: Out-of-stock products can be added too. The current price is kept to report price drops later.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               variantId:
+ *                 type: string
+ *                 description: Required for products that have variants
+ *     responses:
+ *       201:
+ *         description: Item added
+ *       400:
+ *         description: A variant is missing or doesn't exist
+ *       404:
+ *         description: Wishlist or product not found
+ *       409:
+ *         description: The product is already on this wishlist
+ */
+export const addWishlistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId, variantId } = req.body ?? {};
+
+    if (!productId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Product ID is required'
+      });
+    }
+
+    const wishlist = await findOwnWishlist(req);
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    const product = await Product.findOne({ _id: productId, archivedAt: null });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const stockItem = resolveStockItem(product, variantId);
+    if (stockItem.error !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: stockItem.error
+      });
+    }
+
+    const variant = stockItem.variant?._id ?? null;
+    const alreadyAdded = wishlist.items.some(
+      (item) => item.product.equals(product._id) && String(item.variant) === String(variant)
+    );
+    if (alreadyAdded) {
+      return res.status(409).json({
+        success: false,
+        message: `${stockItem.label} is already on this wishlist`
+      });
+    }
+
+    wishlist.items.push({
+      product: product._id,
+      variant,
+      priceWhenAdded: getEffectivePrice(product, stockItem.variant).price,
+      addedAt: new Date()
+    });
+    await wishlist.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Item added to wishlist successfully',
+      data: await formatWishlist(wishlist)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}/items/{itemId}:
+ *   delete:
+ *     summary: Remove an item from a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item removed
+ *       404:
+ *         description: Wishlist or item not found
+ */
+export const removeWishlistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await findOwnWishlist(req);
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    const item = wishlist.items.id(req.params.itemId as string);
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Item not found in wishlist'
+      });
+    }
+
+    item.deleteOne();
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Item removed from wishlist successfully',
+      data: await formatWishlist(wishlist)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}/items/{itemId}/move-to-cart:
+ *   post:
+ *     summary: Move a wishlist item into the cart
+ *     description: Adds the item to the cart like POST /cart/add, then takes it off the wishlist. The item stays on the wishlist when it can't be added (e.g. out of stock).
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: number
+ *                 minimum: 1
+ *                 default: 1
+ *     responses:
+ *       200:
+ *         description: Item moved; returns the cart and the wishlist
+ *       400:
+ *         description: Not enough stock, or an invalid quantity
+ *       404:
+ *         description: Wishlist, item or product not found
+ *       409:
+ *         description: The remaining stock is reserved in other customers' carts
+ */
+export const moveWishlistItemToCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const quantity = req.body?.quantity ?? 1;
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity must be a whole number of at least 1'
+      });
+    }
+
+    const wishlist = await findOwnWishlist(req);
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    const item = wishlist.items.id(req.params.itemId as string);
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Item not found in wishlist'
+      });
+    }
+
+    const result = await addItemToCart(
+      userId,
+      String(item.product),
+      item.variant ? String(item.variant) : undefined,
+      quantity
+    );
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    item.deleteOne();
+    await wishlist.save();
+
+    const { cart, reservedUntil } = result;
+    await cart.populate('items.product', 'name price images category inStock');
+
+    res.status(200).json({
+      success: true,
+      message: 'Item moved to cart successfully',
+      data: {
+        cart,
+        wishlist: await formatWishlist(wishlist)
+      },
+      reservedUntil
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}/share:
+ *   post:
+ *     summary: Get a share link for a wishlist
+ *     description: Anyone with the link can view the wishlist, read-only and without the owner's details. Returns the existing link when the wishlist is already shared.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share link
+ *       404:
+ *         description: Wishlist not found
+ */
+export const shareWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await findOwnWishlist(req);
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    if (!wishlist.shareToken) {
+      wishlist.shareToken = generateShareToken();
+      await wishlist.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { shareUrl: getShareUrl(wishlist.shareToken) }
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/{id}/share:
+ *   delete:
+ *     summary: Stop sharing a wishlist
+ *     description: The current share link stops working. Sharing again creates a new link.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: No longer shared
+ *       404:
+ *         description: Wishlist not found
+ */
+export const unshareWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await Wishlist.findOneAndUpdate(
+      { _id: req.params.id as string, user: req.user?.id },
+      { shareToken: null }
+    );
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist is no longer shared'
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/wishlists/shared/{token}:
+ *   get:
+ *     summary: View a shared wishlist
+ *     description: Public, read-only view of a wishlist through its share link. Doesn't include who owns it.
+ *     tags: [Wishlists]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist retrieved successfully
+ *       404:
+ *         description: No wishlist is shared with this link
+ */
+export const getSharedWishlist = async (req: Request, res: Response) => {
+  try {
+    const wishlist = await Wishlist.findOne({ shareToken: req.params.token as string });
+    if (!wishlist) {
+      return sendWishlistNotFound(res);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await formatWishlist(wishlist, { shared: true })
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
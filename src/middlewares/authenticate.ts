@@ -1,17 +1,81 @@
 import type { Request, Response, NextFunction } from "express";
-import { verify } from "../utils/jwt.helper";
+import { verify, verifyChallengeToken } from "../utils/jwt.helper";
+import type { ChallengePurpose } from "../utils/jwt.helper";
 import { User } from "../models/user.model";
+import { isSessionActive } from "../service/token.service";
+import { findActiveApiKey, API_KEY_PREFIX } from "../service/apiKey.service";
 
 interface AuthRequest extends Request {
   user?: any;
+  sessionId?: string; // Refresh token family of the current login
+  viaChallenge?: boolean; // Authenticated with a challenge token instead of a session
+  apiKey?: { id: string; scopes: string[] }; // Set when the request used an API key
 }
 
+// API keys can be sent as `X-API-Key: sk_...` or `Authorization: Bearer sk_...`
+const getApiKey = (req: Request) => {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) {
+    return header;
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7);
+  }
+
+  return undefined;
+};
+
+// Authenticate with an API key: the request acts as the key's owner,
+// limited to the key's scopes (see requirePermission / requireScope)
+const authenticateApiKey = async (
+  rawKey: string,
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const apiKey = await findActiveApiKey(rawKey, req.ip);
+
+  if (!apiKey) {
+    return res.status(401).json({
+      status: "fail",
+      message: "Invalid, expired or revoked API key.",
+    });
+  }
+
+  const user = await User.findById(apiKey.user);
+
+  if (!user) {
+    return res.status(401).json({
+      status: "fail",
+      message: "Invalid API key - user not found.",
+    });
+  }
+
+  if (user.status === "suspended") {
+    return res.status(403).json({
+      status: "fail",
+      message: "Your account has been suspended. Please contact support.",
+    });
+  }
+
+  req.user = user;
+  req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+  next();
+};
+
 const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
+    const apiKey = getApiKey(req);
+    if (apiKey) {
+      return await authenticateApiKey(apiKey, req, res, next);
+    }
+
     // Get Authorization header
     const authHeader = req.headers.authorization;
 
@@ -27,6 +91,15 @@ const authenticate = async (
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
     const decodedToken = await verify(token);
+
+    // Access tokens belong to a session that can be revoked server-side
+    if (!decodedToken.sid || !(await isSessionActive(decodedToken.sid))) {
+      return res.status(401).json({
+        status: "fail",
+        message: "Session has expired or been revoked. Please log in again.",
+      });
+    }
+
     const user = await User.findOne({
       _id: decodedToken.id,
     });
@@ -37,8 +110,27 @@ const authenticate = async (
         message: "Invalid token - user not found.",
       });
     }
-    
+
+    // Reject tokens issued before the last password change
+    if (
+      user.passwordChangedAt &&
+      decodedToken.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)
+    ) {
+      return res.status(401).json({
+        status: "fail",
+        message: "Password was changed recently. Please log in again.",
+      });
+    }
+
+    if (user.status === "suspended") {
+      return res.status(403).json({
+        status: "fail",
+        message: "Your account has been suspended. Please contact support.",
+      });
+    }
+
     req.user = user;
+    req.sessionId = decodedToken.sid;
     next();
   } catch (error) {
     console.log(error);
@@ -49,6 +141,43 @@ const authenticate = async (
   }
 };
 
+// Accept either a normal session or a `challengeToken` in the body for the given
+// purpose. Used where a user must finish a step (like 2FA enrollment) before they
+// are allowed a session.
+const authenticateOrChallenge = (purpose: ChallengePurpose) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const challengeToken = req.body?.challengeToken;
+
+    if (!challengeToken) {
+      return authenticate(req, res, next);
+    }
+
+    try {
+      const decoded = await verifyChallengeToken(challengeToken, purpose);
+      const user = await User.findById(decoded.id);
+
+      if (!user) {
+        return res.status(401).json({
+          status: "fail",
+          message: "Invalid token - user not found.",
+        });
+      }
+
+      req.user = user;
+      req.viaChallenge = true;
+      next();
+    } catch (error) {
+      console.log(error);
+      return res.status(401).json({
+        status: "fail",
+        message: "Invalid or expired challenge token.",
+      });
+    }
+  };
+};
+
 export default authenticate;
 
+export { authenticateOrChallenge };
+
 export type { AuthRequest };
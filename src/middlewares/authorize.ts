@@ -0,0 +1,107 @@
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "./authenticate";
+import {
+  hasPermission,
+  Permission,
+  ApiKeyScope,
+} from "../config/roles.config";
+
+// Must be used after `authenticate`, which attaches the user to the request
+
+// Allow the request only if the user holds every given permission
+const requirePermission = (...permissions: Permission[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        status: "fail",
+        message: "Authentication required.",
+      });
+    }
+
+    const missing = permissions.filter(
+      (permission) => !hasPermission(req.user, permission)
+    );
+
+    if (missing.length > 0) {
+      return res.status(403).json({
+        status: "fail",
+        message: `Access denied. Missing permission: ${missing.join(", ")}.`,
+      });
+    }
+
+    // API keys also need each permission in their scopes
+    const missingScopes = req.apiKey
+      ? permissions.filter((permission) => !req.apiKey!.scopes.includes(permission))
+      : [];
+
+    if (missingScopes.length > 0) {
+      return res.status(403).json({
+        status: "fail",
+        message: `Access denied. API key is missing scope: ${missingScopes.join(", ")}.`,
+      });
+    }
+
+    next();
+  };
+};
+
+// For routes without a permission check: let API keys through only with the given scope.
+// Normal logins are not affected.
+const requireScope = (scope: ApiKeyScope) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      return res.status(403).json({
+        status: "fail",
+        message: `Access denied. API key is missing scope: ${scope}.`,
+      });
+    }
+
+    next();
+  };
+};
+
+// Account and session management is for real logins only, never API keys
+const rejectApiKeys = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.apiKey) {
+    return res.status(403).json({
+      status: "fail",
+      message: "Access denied. This endpoint cannot be used with an API key.",
+    });
+  }
+
+  next();
+};
+
+// Block unverified accounts when the policy is switched on (REQUIRE_VERIFIED_EMAIL=true)
+const requireVerifiedEmail = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (process.env.REQUIRE_VERIFIED_EMAIL !== "true") {
+    return next();
+  }
+
+  if (!req.user) {
+    return res.status(401).json({
+      status: "fail",
+      message: "Authentication required.",
+    });
+  }
+
+  if (!req.user.emailVerified) {
+    return res.status(403).json({
+      status: "fail",
+      message: "Please verify your email address before continuing.",
+    });
+  }
+
+  next();
+};
+
+export {
+  requirePermission,
+  requireScope,
+  rejectApiKeys,
+  requireVerifiedEmail,
+};
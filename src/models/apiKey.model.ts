@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { API_KEY_SCOPES, ApiKeyScope } from '../config/roles.config';
+
+export interface IApiKey extends Document {
+  user: mongoose.Types.ObjectId; // Requests made with the key act as this user
+  name: string;
+  prefix: string; // First characters of the key, shown so users can tell keys apart
+  keyHash: string; // SHA-256 hash, the raw key is only shown once at creation
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  prefix: {
+    type: String,
+    required: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  scopes: {
+    type: [{ type: String, enum: API_KEY_SCOPES }],
+    validate: {
+      validator: (scopes: string[]) => scopes.length > 0,
+      message: 'At least one scope is required'
+    }
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  lastUsedIp: {
+    type: String
+  },
+  expiresAt: {
+    type: Date
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
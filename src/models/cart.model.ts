@@ -2,13 +2,24 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface ICartItem {
   product: mongoose.Types.ObjectId;
+  variant?: mongoose.Types.ObjectId; // Chosen variant, for products that have variants
+  sku?: string;
+  variantName?: string; // e.g. "Size: M, Color: Red"
   quantity: number;
   price: number;
 }
 
+// Message shown once on the next cart view, e.g. when an item was removed for the user
+export interface ICartNotice {
+  message: string;
+  product?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
 export interface ICart extends Document {
   user: mongoose.Types.ObjectId;
   items: ICartItem[];
+  notices: ICartNotice[];
   totalAmount: number;
   createdAt: Date;
   updatedAt: Date;
@@ -20,6 +31,15 @@ const CartItemSchema = new Schema<ICartItem>({
     ref: 'products',
     required: true
   },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  sku: {
+    type: String
+  },
+  variantName: {
+    type: String
+  },
   quantity: {
     type: Number,
     required: true,
@@ -39,6 +59,12 @@ const CartSchema = new Schema<ICart>({
     unique: true // One cart per user
   },
   items: [CartItemSchema],
+  notices: [{
+    _id: false,
+    message: { type: String, required: true },
+    product: { type: Schema.Types.ObjectId, ref: 'products' },
+    createdAt: { type: Date, default: Date.now }
+  }],
   totalAmount: {
     type: Number,
     default: 0
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface ICategory extends Document {
+  name: string;
+  slug: string; // URL-friendly unique key, e.g. "running-shoes"
+  description?: string;
+  parent?: Types.ObjectId | null; // null for top-level categories
+  ancestors: Types.ObjectId[]; // Root first, parent last; lets us find all descendants in one query
+  sortOrder: number; // Position among siblings (lowest first)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const categorySchema = new Schema<ICategory>({
+  name: {
+    type: String,
+    required: [true, "Name is required"],
+    trim: true,
+  },
+  slug: {
+    type: String,
+    required: [true, "Slug is required"],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and dashes"],
+  },
+  description: {
+    type: String,
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: "Category",
+    default: null,
+  },
+  ancestors: {
+    type: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+    default: [],
+  },
+  sortOrder: {
+    type: Number,
+    default: 0,
+  },
+}, {
+  timestamps: true
+});
+
+// Children of a category in display order, and "everything under X" lookups
+categorySchema.index({ parent: 1, sortOrder: 1, name: 1 });
+categorySchema.index({ ancestors: 1 });
+
+export const Category = mongoose.model<ICategory>("Category", categorySchema);
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Why stock changed. Sales and cancellations come from orders; the rest are
+// recorded by staff (or by product edits and imports, as adjustments).
+export const MOVEMENT_REASONS = ['sale', 'cancellation', 'restock', 'adjustment', 'return'] as const;
+
+export type MovementReason = (typeof MOVEMENT_REASONS)[number];
+
+// One change to the stock of a product (without variants) or of one variant.
+// Entries are never edited or deleted, so they add up to the current stock.
+export interface IInventoryMovement extends Document {
+  product: Types.ObjectId;
+  variant?: Types.ObjectId;
+  sku?: string; // Copied at the time, the variant may be removed later
+  reason: MovementReason;
+  quantityChange: number; // Negative when stock went down
+  quantityAfter: number; // Stock level right after this movement
+  actor?: Types.ObjectId; // User who made the change (the customer for sales and cancellations)
+  order?: Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+const InventoryMovementSchema = new Schema<IInventoryMovement>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'products',
+    required: true,
+    immutable: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    immutable: true
+  },
+  sku: {
+    type: String,
+    immutable: true
+  },
+  reason: {
+    type: String,
+    enum: MOVEMENT_REASONS,
+    required: true,
+    immutable: true
+  },
+  quantityChange: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  quantityAfter: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    immutable: true
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot be longer than 500 characters'],
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Movement history of a product, newest first
+InventoryMovementSchema.index({ product: 1, createdAt: -1 });
+InventoryMovementSchema.index({ order: 1 });
+
+// The ledger is append-only
+const rejectChange = function() {
+  throw new Error('Inventory movements cannot be changed or deleted');
+};
+InventoryMovementSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectChange
+);
+InventoryMovementSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+InventoryMovementSchema.pre('save', function() {
+  if (!this.isNew) rejectChange();
+});
+
+export const InventoryMovement = mongoose.model<IInventoryMovement>('InventoryMovement', InventoryMovementSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILoginAttempt extends Document {
+  key: string; // "account:<email>" or "ip:<address>"
+  failures: number;
+  windowStartedAt: Date;
+  lockedUntil?: Date;
+  lockouts: number; // How many times this key has been locked, used to grow the lockout
+  expiresAt: Date;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  windowStartedAt: {
+    type: Date,
+    required: true
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lockouts: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Forget counters once they are no longer relevant
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Pending social login between redirecting to the provider and its callback
+export interface IOidcState extends Document {
+  stateHash: string; // SHA-256 hash of the `state` parameter
+  provider: string;
+  codeVerifier: string; // PKCE verifier, sent when exchanging the code
+  nonce: string; // Must come back inside the ID token
+  expiresAt: Date;
+}
+
+const OidcStateSchema = new Schema<IOidcState>({
+  stateHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  codeVerifier: {
+    type: String,
+    required: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+OidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OidcState = mongoose.model<IOidcState>('OidcState', OidcStateSchema);
@@ -2,13 +2,17 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IOrderItem {
   product: mongoose.Types.ObjectId;
+  variant?: mongoose.Types.ObjectId; // Variant bought, for products that have variants
+  sku?: string;
+  variantName?: string; // Store variant options at time of order
   quantity: number;
   price: number;
   name: string; // Store product name at time of order
 }
 
 export interface IOrder extends Document {
-  user: mongoose.Types.ObjectId;
+  user?: mongoose.Types.ObjectId; // Removed when the customer's account is deleted
+  anonymizedAt?: Date;
   orderNumber: string;
   items: IOrderItem[];
   totalAmount: number;
@@ -30,6 +34,15 @@ const OrderItemSchema = new Schema<IOrderItem>({
     ref: 'products',
     required: true
   },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  sku: {
+    type: String
+  },
+  variantName: {
+    type: String
+  },
   quantity: {
     type: Number,
     required: true,
@@ -49,7 +62,10 @@ const OrderSchema = new Schema<IOrder>({
   user: {
     type: Schema.Types.ObjectId,
     ref: 'User',
-    required: true
+    required: function(this: IOrder) { return !this.anonymizedAt; }
+  },
+  anonymizedAt: {
+    type: Date
   },
   orderNumber: {
     type: String,
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ISalePrice } from './product.model';
+
+export type PriceChangeSource = 'create' | 'update' | 'import';
+
+// One change to the pricing of a product or one of its variants. Each entry holds the
+// full pricing after the change, so the price at any moment is the latest entry before it.
+// Entries are never edited or deleted.
+export interface IPriceHistory extends Document {
+  product: Types.ObjectId;
+  variant?: Types.ObjectId; // Unset for the product's own pricing
+  price?: number; // Unset when the variant follows the product's price
+  sale?: ISalePrice;
+  source: PriceChangeSource;
+  changedBy?: Types.ObjectId; // Unset for changes not made by a signed-in user
+  createdAt: Date;
+}
+
+const PriceHistorySchema = new Schema<IPriceHistory>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'products',
+    required: true,
+    immutable: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    immutable: true
+  },
+  price: {
+    type: Number,
+    immutable: true
+  },
+  sale: {
+    type: new Schema<ISalePrice>({
+      price: { type: Number, required: true },
+      startsAt: { type: Date },
+      endsAt: { type: Date }
+    }, { _id: false }),
+    immutable: true
+  },
+  source: {
+    type: String,
+    enum: ['create', 'update', 'import'],
+    required: true,
+    immutable: true
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// History of one product or variant, newest first
+PriceHistorySchema.index({ product: 1, variant: 1, createdAt: -1 });
+
+// The log is append-only
+const rejectChange = function() {
+  throw new Error('Price history cannot be changed or deleted');
+};
+PriceHistorySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectChange
+);
+PriceHistorySchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+PriceHistorySchema.pre('save', function() {
+  if (!this.isNew) rejectChange();
+});
+
+export const PriceHistory = mongoose.model<IPriceHistory>('PriceHistory', PriceHistorySchema);
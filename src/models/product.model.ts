@@ -1,16 +1,184 @@
-import mongoose, { Schema, Document } from "mongoose";
+import crypto from "crypto";
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { getEffectivePrice } from "../service/price.service";
+
+// Most images a product can have in total
+export const MAX_PRODUCT_IMAGES = 5;
+
+// Resized copies of an uploaded image (WebP), so clients can download the size they show
+export interface IProductImageSizes {
+  thumbnail: string;
+  medium: string;
+  large: string;
+}
+
+// A product image. The first image is the primary one.
+export interface IProductImage {
+  _id: Types.ObjectId;
+  url: string; // The full-size image
+  alt?: string; // Alternative text for screen readers
+  sizes?: IProductImageSizes; // Only for uploaded images, not for external URLs
+}
+
+// A scheduled sale. Without dates it runs until removed.
+export interface ISalePrice {
+  price: number;
+  startsAt?: Date;
+  endsAt?: Date; // Exclusive
+}
+
+// An option axis, e.g. { name: "Size", values: ["S", "M", "L"] }
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+// One purchasable combination of option values, e.g. Size M / Color Red
+export interface IProductVariant {
+  _id: Types.ObjectId;
+  sku: string;
+  options: Map<string, string>; // Option name -> chosen value
+  price?: number; // Overrides the product price when set
+  sale?: ISalePrice | null; // Only together with its own price
+  quantity: number;
+  inStock: boolean;
+  images: string[];
+}
 
 export interface IProduct extends Document {
+  sku?: string; // Stock keeping unit of a product without variants
   name: string;
-  price: number;
+  price: number; // Regular price; see `sale` and the currentPrice virtual
+  sale?: ISalePrice | null;
   description?: string;
-  category: string;
+  category: Types.ObjectId;
+  categoryName: string; // Copy of the category's name, kept for search
   inStock: boolean;
   quantity: number;
-  images: string[]; // Array of image URLs
+  images: Types.DocumentArray<IProductImage>; // In display order, primary first
+  options: IProductOption[];
+  // When a product has variants, stock lives on the variants and
+  // `quantity`/`inStock` above are kept as their totals
+  variants: Types.DocumentArray<IProductVariant>;
+  // The inventory team is emailed when `quantity` drops below this
+  // (LOW_STOCK_THRESHOLD from the environment when unset)
+  lowStockThreshold?: number;
+  ratingAverage: number; // Average of visible reviews, one decimal
+  ratingCount: number;
+  // Set when the product is deleted: hidden from the catalog but kept for order history
+  archivedAt?: Date | null;
+  archivedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+// Relevance weight of each field in product search
+export const PRODUCT_SEARCH_WEIGHTS = {
+  name: 10,
+  categoryName: 5,
+  description: 1,
+};
+
+const imageSchema = new Schema<IProductImage>({
+  url: {
+    type: String,
+    required: [true, "Image URL is required"],
+  },
+  alt: {
+    type: String,
+    trim: true,
+    maxlength: [250, "Alt text cannot be longer than 250 characters"],
+  },
+  sizes: {
+    type: new Schema<IProductImageSizes>({
+      thumbnail: { type: String, required: true },
+      medium: { type: String, required: true },
+      large: { type: String, required: true },
+    }, { _id: false }),
+    default: undefined,
+  },
+});
+
+const saleSchema = new Schema<ISalePrice>({
+  price: {
+    type: Number,
+    required: [true, "Sale price is required"],
+    min: [0, "Sale price cannot be negative"],
+  },
+  startsAt: {
+    type: Date,
+  },
+  endsAt: {
+    type: Date,
+  },
+}, { _id: false });
+
+const optionSchema = new Schema<IProductOption>({
+  name: {
+    type: String,
+    required: [true, "Option name is required"],
+    trim: true,
+  },
+  values: {
+    type: [String],
+    validate: {
+      validator: (values: string[]) => values.length > 0,
+      message: "Option needs at least one value",
+    },
+  },
+}, { _id: false });
+
+const variantSchema = new Schema<IProductVariant>({
+  sku: {
+    type: String,
+    required: [true, "Variant SKU is required"],
+    trim: true,
+  },
+  options: {
+    type: Map,
+    of: String,
+    default: {},
+  },
+  price: {
+    type: Number,
+    min: [0, "Price cannot be negative"],
+  },
+  sale: {
+    type: saleSchema,
+    default: null,
+  },
+  quantity: {
+    type: Number,
+    default: 0,
+    min: [0, "Quantity cannot be negative"],
+  },
+  inStock: {
+    type: Boolean,
+    default: true,
+  },
+  images: {
+    type: [String],
+    default: [],
+  },
+}, {
+  id: false,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// What the variant costs right now (sale included) and the regular price while on sale
+variantSchema.virtual("currentPrice").get(function() {
+  return getEffectivePrice(this.$parent() as IProduct, this).price;
+});
+variantSchema.virtual("compareAtPrice").get(function() {
+  return getEffectivePrice(this.$parent() as IProduct, this).compareAtPrice;
+});
+
 const productSchema = new Schema<IProduct>({
+  sku: {
+    type: String,
+    trim: true,
+  },
   name: {
     type: String,
     required: [true, "Name is required"],
@@ -19,13 +187,21 @@ const productSchema = new Schema<IProduct>({
     type: Number,
     required: [true, "Price is required"],
   },
+  sale: {
+    type: saleSchema,
+    default: null,
+  },
   description: {
     type: String,
   },
   category: {
-    type: String,
+    type: Schema.Types.ObjectId,
+    ref: "Category",
     required: [true, "Category is required"],
   },
+  categoryName: {
+    type: String,
+  },
   inStock: {
     type: Boolean,
     default: true,
@@ -35,9 +211,145 @@ const productSchema = new Schema<IProduct>({
     default: 1,
   },
   images: {
-    type: [String],
+    type: [imageSchema],
     default: [],
+    validate: {
+      validator: (images: IProductImage[]) => images.length <= MAX_PRODUCT_IMAGES,
+      message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`,
+    },
+  },
+  options: {
+    type: [optionSchema],
+    default: [],
+  },
+  variants: {
+    type: [variantSchema],
+    default: [],
+  },
+  lowStockThreshold: {
+    type: Number,
+    min: [0, "Low stock threshold cannot be negative"],
   },
+  ratingAverage: {
+    type: Number,
+    default: 0,
+  },
+  ratingCount: {
+    type: Number,
+    default: 0,
+  },
+  archivedAt: {
+    type: Date,
+    default: null,
+  },
+  archivedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+}, {
+  timestamps: true,
+  id: false,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// What the product costs right now (sale included) and the regular price while on sale
+productSchema.virtual("currentPrice").get(function() {
+  return getEffectivePrice(this).price;
+});
+productSchema.virtual("compareAtPrice").get(function() {
+  return getEffectivePrice(this).compareAtPrice;
+});
+
+// Products saved before images had alt text stored plain URL strings. Until
+// migrateStringImages() has converted them, they load with an id derived from the
+// URL and position, so it is the same on every load (and after the migration).
+export const legacyImageId = (url: string, index: number) =>
+  new Types.ObjectId(crypto.createHash("sha256").update(`${index}:${url}`).digest("hex").slice(0, 24));
+
+productSchema.pre("init", function(data: any) {
+  if (Array.isArray(data?.images)) {
+    data.images = data.images.map((image: any, index: number) =>
+      typeof image === "string" ? { _id: legacyImageId(image, index), url: image } : image
+    );
+  }
 });
 
+// A sale must be cheaper than the price it replaces and end after it starts.
+// A variant sale needs the variant's own price (otherwise the product's sale applies).
+productSchema.pre("validate", function() {
+  const checkSale = (path: string, sale: ISalePrice | null | undefined, price: number | undefined) => {
+    if (!sale) return;
+    if (price === undefined || price === null) {
+      this.invalidate(path, "A variant can only have a sale when it has its own price");
+    } else if (sale.price >= price) {
+      this.invalidate(path, `Sale price must be lower than the regular price (${price})`);
+    }
+    if (sale.startsAt && sale.endsAt && sale.endsAt <= sale.startsAt) {
+      this.invalidate(path, "Sale must end after it starts");
+    }
+  };
+
+  checkSale("sale", this.sale, this.price);
+  this.variants.forEach((variant, i) => checkSale(`variants.${i}.sale`, variant.sale, variant.price));
+});
+
+// Variants must use the product's option axes, one variant per combination,
+// and the product totals follow the variants' stock
+productSchema.pre("validate", function() {
+  if (this.variants.length === 0) return;
+
+  const optionNames = this.options.map((option) => option.name);
+  const combinations = new Set<string>();
+  const skus = new Set<string>();
+
+  for (const variant of this.variants) {
+    const chosen = optionNames.map((name) => variant.options.get(name));
+
+    if (
+      variant.options.size !== optionNames.length ||
+      chosen.some((value, i) => !value || !this.options[i]!.values.includes(value))
+    ) {
+      this.invalidate("variants", `Variant ${variant.sku} must pick one value for each of: ${optionNames.join(", ")}`);
+    }
+
+    const combination = JSON.stringify(chosen);
+    if (combinations.has(combination)) {
+      this.invalidate("variants", `More than one variant has the options of ${variant.sku}`);
+    }
+    combinations.add(combination);
+
+    if (skus.has(variant.sku)) {
+      this.invalidate("variants", `Duplicate variant SKU ${variant.sku}`);
+    }
+    skus.add(variant.sku);
+  }
+
+  this.quantity = this.variants.reduce((total, variant) => total + variant.quantity, 0);
+  this.inStock = this.variants.some((variant) => variant.inStock && variant.quantity > 0);
+});
+
+// Catalog listing: category filter with price sort, plus the other sort options
+productSchema.index({ category: 1, price: 1 });
+productSchema.index({ price: 1 });
+productSchema.index({ name: 1 });
+productSchema.index({ createdAt: -1 });
+productSchema.index({ inStock: 1, quantity: 1 });
+productSchema.index({ ratingAverage: -1, ratingCount: -1 });
+productSchema.index({ archivedAt: 1, createdAt: -1 });
+// SKUs are unique across the whole catalog
+productSchema.index(
+  { sku: 1 },
+  { unique: true, partialFilterExpression: { sku: { $type: "string" } } }
+);
+productSchema.index(
+  { "variants.sku": 1 },
+  { unique: true, partialFilterExpression: { "variants.sku": { $exists: true } } }
+);
+// Full-text search (only one text index is allowed per collection)
+productSchema.index(
+  { name: "text", categoryName: "text", description: "text" },
+  { weights: PRODUCT_SEARCH_WEIGHTS, name: "product_search" }
+);
+
 export const Product = mongoose.model<IProduct>("products", productSchema);
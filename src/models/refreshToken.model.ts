@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 hash, the raw token only ever lives on the client
+  family: string; // All tokens rotated from the same login share a family (one per device)
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string; // Hash of the token issued when this one was rotated
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  family: {
+    type: String,
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  },
+  replacedBy: {
+    type: String
+  },
+  createdByIp: {
+    type: String
+  },
+  userAgent: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB remove tokens once they expire
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IReview extends Document {
+  product: Types.ObjectId;
+  user: Types.ObjectId;
+  rating: number; // Whole stars, 1-5
+  title: string;
+  body: string;
+  status: 'visible' | 'hidden';
+  // Moderation (set when an admin hides the review)
+  hiddenAt?: Date;
+  hiddenBy?: Types.ObjectId;
+  hiddenReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema = new Schema<IReview>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'products',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Rating is required'],
+    min: [1, 'Rating must be between 1 and 5'],
+    max: [5, 'Rating must be between 1 and 5'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Rating must be a whole number of stars'
+    }
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [120, 'Title cannot be longer than 120 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Review text is required'],
+    trim: true,
+    maxlength: [5000, 'Review cannot be longer than 5000 characters']
+  },
+  status: {
+    type: String,
+    enum: ['visible', 'hidden'],
+    default: 'visible'
+  },
+  hiddenAt: {
+    type: Date
+  },
+  hiddenBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  hiddenReason: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// One review per user per product
+ReviewSchema.index({ product: 1, user: 1 }, { unique: true });
+// Product page listing and the moderation queue
+ReviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ status: 1, createdAt: -1 });
+
+export const Review = mongoose.model<IReview>('Review', ReviewSchema);
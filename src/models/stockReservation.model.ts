@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Stock held for one cart line until `expiresAt`. Reservations count as taken
+// for everyone else; MongoDB removes them some time after they expire.
+export interface IStockReservation extends Document {
+  product: Types.ObjectId;
+  variant: Types.ObjectId | null;
+  user: Types.ObjectId;
+  quantity: number;
+  expiresAt: Date;
+}
+
+const StockReservationSchema = new Schema<IStockReservation>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'products',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// One reservation per cart line
+StockReservationSchema.index({ product: 1, variant: 1, user: 1 }, { unique: true });
+StockReservationSchema.index({ user: 1 });
+// Expired reservations are ignored by queries right away and deleted by the TTL monitor later
+StockReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const StockReservation = mongoose.model<IStockReservation>('StockReservation', StockReservationSchema);
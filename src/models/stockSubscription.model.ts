@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// A customer waiting for an out-of-stock product (or variant) to come back.
+// Removed once the customer has been emailed.
+export interface IStockSubscription extends Document {
+  product: Types.ObjectId;
+  variant?: Types.ObjectId | null; // For products that have variants
+  user: Types.ObjectId;
+  createdAt: Date;
+}
+
+const StockSubscriptionSchema = new Schema<IStockSubscription>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'products',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// One subscription per user per product/variant
+StockSubscriptionSchema.index({ product: 1, variant: 1, user: 1 }, { unique: true });
+StockSubscriptionSchema.index({ user: 1 });
+
+export const StockSubscription = mongoose.model<IStockSubscription>('StockSubscription', StockSubscriptionSchema);
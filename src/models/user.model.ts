@@ -1,12 +1,46 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { ROLES, PERMISSIONS, Role, Permission } from '../config/roles.config';
+
+// A login linked from an external OpenID Connect provider
+export interface IUserIdentity {
+  provider: string;
+  subject: string; // The provider's `sub` claim
+  email?: string;
+  linkedAt: Date;
+}
 
 export interface IUser extends Document {
   firstName: string;
   lastName: string;
   email: string;
-  password: string;
+  password?: string; // Not set for accounts created through social login
+  identities: IUserIdentity[];
+  role: Role;
+  permissions: Permission[]; // Extra permissions on top of the role defaults
+  passwordResetToken?: string; // SHA-256 hash of the emailed reset token
+  passwordResetExpires?: Date;
+  passwordChangedAt?: Date; // Tokens issued before this are rejected
+  emailVerified: boolean;
+  emailVerificationToken?: string; // SHA-256 hash of the emailed verification token
+  emailVerificationExpires?: Date;
+  emailVerificationSentAt?: Date; // Used to throttle resends
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // Base32 TOTP secret, set once enrollment is confirmed
+  twoFactorPendingSecret?: string; // Secret waiting for its first valid code
+  twoFactorRecoveryCodes: string[]; // SHA-256 hashes of unused recovery codes
+  twoFactorLastUsedStep?: number; // Last accepted TOTP time step, blocks code replay
+  pendingEmail?: string; // New address waiting for confirmation
+  emailChangeToken?: string; // SHA-256 hash of the token sent to pendingEmail
+  emailChangeExpires?: Date;
+  status: 'active' | 'suspended'; // Suspended users can't log in or use existing tokens
+  suspendedAt?: Date;
+  suspensionReason?: string;
 }
 
+// Fields users may change on their own profile (and admins on any profile).
+// Email, password and role have dedicated flows.
+export const EDITABLE_PROFILE_FIELDS = ['firstName', 'lastName'] as const;
+
 const UserSchema = new Schema<IUser>({
   firstName: {
     type: String,
@@ -26,12 +60,116 @@ const UserSchema = new Schema<IUser>({
   },
   password: {
     type: String,
-    required: [true, 'Password is required'],
+    required: [
+      function(this: IUser) { return !this.identities || this.identities.length === 0; },
+      'Password is required'
+    ],
     minlength: [6, 'Password must be at least 6 characters']
-    
+  },
+  identities: {
+    type: [{
+      _id: false,
+      provider: { type: String, required: true },
+      subject: { type: String, required: true },
+      email: { type: String, lowercase: true },
+      linkedAt: { type: Date, default: Date.now }
+    }],
+    default: []
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    default: 'customer'
+  },
+  permissions: {
+    type: [{ type: String, enum: PERMISSIONS }],
+    default: []
+  },
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    select: false
+  },
+  passwordChangedAt: {
+    type: Date
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpires: {
+    type: Date,
+    select: false
+  },
+  emailVerificationSentAt: {
+    type: Date,
+    select: false
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    select: false
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  twoFactorLastUsedStep: {
+    type: Number,
+    select: false
+  },
+  pendingEmail: {
+    type: String,
+    lowercase: true,
+    select: false
+  },
+  emailChangeToken: {
+    type: String,
+    select: false
+  },
+  emailChangeExpires: {
+    type: Date,
+    select: false
+  },
+  status: {
+    type: String,
+    enum: ['active', 'suspended'],
+    default: 'active',
+    index: true
+  },
+  suspendedAt: {
+    type: Date
+  },
+  suspensionReason: {
+    type: String,
+    trim: true
   }
 }, {
   timestamps: true
 });
 
+// Admin search by name/email and listing by signup date
+UserSchema.index({ createdAt: -1 });
+UserSchema.index({ firstName: 1, lastName: 1 });
+// One account per external identity
+UserSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
 export const User = mongoose.model<IUser>('User', UserSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IWishlistItem {
+  _id: Types.ObjectId;
+  product: Types.ObjectId;
+  variant: Types.ObjectId | null; // Chosen variant, for products that have variants
+  priceWhenAdded: number; // What it cost when saved, to spot price drops
+  addedAt: Date;
+}
+
+// A named list of products a user saved for later. Anyone with the share link
+// can view it (read-only) while `shareToken` is set.
+export interface IWishlist extends Document {
+  user: Types.ObjectId;
+  name: string;
+  items: Types.DocumentArray<IWishlistItem>;
+  shareToken: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WishlistItemSchema = new Schema<IWishlistItem>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'products',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  priceWhenAdded: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const WishlistSchema = new Schema<IWishlist>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot be longer than 100 characters']
+  },
+  items: [WishlistItemSchema],
+  shareToken: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// List names are unique per user
+WishlistSchema.index({ user: 1, name: 1 }, { unique: true });
+WishlistSchema.index({ shareToken: 1 }, { unique: true, partialFilterExpression: { shareToken: { $type: 'string' } } });
+
+export const Wishlist = mongoose.model<IWishlist>('Wishlist', WishlistSchema);
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  getApiKeys,
+  createApiKey,
+  revokeApiKey
+} from '../controllers/apiKey.controller';
+import authenticate from '../middlewares/authenticate';
+import { rejectApiKeys } from '../middlewares/authorize';
+
+const router = Router();
+
+// Keys are managed with a normal login only (a key can't create more keys)
+router.use(authenticate, rejectApiKeys);
+
+// GET /api/v1/api-keys - List your API keys
+router.get('/', getApiKeys);
+
+// POST /api/v1/api-keys - Create an API key
+router.post('/', createApiKey);
+
+// DELETE /api/v1/api-keys/:id - Revoke an API key
+router.delete('/:id', revokeApiKey);
+
+export default router;
@@ -1,15 +1,80 @@
 import express from "express";
-import { profile, register, login } from "../controllers/auth.controller";
-import authenticate from "../middlewares/authenticate";
+import {
+  profile,
+  register,
+  login,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  refresh,
+  logout,
+  logoutAll,
+  loginTwoFactor,
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  updateProfile,
+  changePassword,
+  requestEmailChange,
+  confirmEmailChange,
+  oidcProviders,
+  oidcAuthorize,
+  oidcCallback,
+} from "../controllers/auth.controller";
+import authenticate, { authenticateOrChallenge } from "../middlewares/authenticate";
+import { rejectApiKeys } from "../middlewares/authorize";
 
 const authenticationRouter = express.Router();
 
+// Account endpoints need a real login; API keys are rejected here
+const authenticateUser = [authenticate, rejectApiKeys];
+
 authenticationRouter.post("/register", register);
 
 authenticationRouter.post("/login", login);
 
-authenticationRouter.get("/profile", authenticate, profile);
+authenticationRouter.post("/login/2fa", loginTwoFactor);
+
+authenticationRouter.post("/refresh", refresh);
+
+authenticationRouter.post("/logout", authenticateUser, logout);
+
+authenticationRouter.post("/logout-all", authenticateUser, logoutAll);
+
+authenticationRouter.get("/profile", authenticateUser, profile);
+
+authenticationRouter.patch("/profile", authenticateUser, updateProfile);
+
+authenticationRouter.post("/change-password", authenticateUser, changePassword);
+
+authenticationRouter.post("/change-email", authenticateUser, requestEmailChange);
+
+authenticationRouter.post("/confirm-email-change", confirmEmailChange);
+
+authenticationRouter.post("/forgot-password", forgotPassword);
+
+authenticationRouter.post("/reset-password", resetPassword);
+
+authenticationRouter.post("/verify-email", verifyEmail);
+
+authenticationRouter.post("/resend-verification", authenticateUser, resendVerification);
+
+// social login (OpenID Connect, authorization code + PKCE)
+authenticationRouter.get("/oidc/providers", oidcProviders);
+
+authenticationRouter.get("/oidc/:provider/authorize", oidcAuthorize);
+
+authenticationRouter.post("/oidc/:provider/callback", oidcCallback);
+
+// two-factor authentication (setup/confirm also accept the login challenge token)
+authenticationRouter.post("/2fa/setup", authenticateOrChallenge("2fa-setup"), rejectApiKeys, setupTwoFactor);
+
+authenticationRouter.post("/2fa/confirm", authenticateOrChallenge("2fa-setup"), rejectApiKeys, confirmTwoFactor);
+
+authenticationRouter.post("/2fa/recovery-codes", authenticateUser, regenerateRecoveryCodes);
 
-//  password reset, forgot password and many more
+authenticationRouter.post("/2fa/disable", authenticateUser, disableTwoFactor);
 
 export default authenticationRouter;
@@ -7,11 +7,12 @@ import {
   clearCart
 } from '../controllers/cart.controller';
 import authenticate from '../middlewares/authenticate';
+import { rejectApiKeys } from '../middlewares/authorize';
 
 const router = Router();
 
-// All cart routes require authentication
-router.use(authenticate);
+// All cart routes require authentication (a real login, not an API key)
+router.use(authenticate, rejectApiKeys);
 
 // GET /api/v1/cart - Get user's cart
 router.get('/', getCart);
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import {
+  getCategories,
+  getCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  migrateCategories
+} from '../controllers/category.controller';
+import authenticate from '../middlewares/authenticate';
+import { requirePermission } from '../middlewares/authorize';
+
+const router = Router();
+
+// GET /api/v1/categories - Category tree
+router.get('/', getCategories);
+
+// POST /api/v1/categories/migrate - Convert old category strings (admin)
+router.post('/migrate', authenticate, requirePermission('categories:manage'), migrateCategories);
+
+// GET /api/v1/categories/:idOrSlug - Single category
+router.get('/:idOrSlug', getCategory);
+
+// POST /api/v1/categories - Create category (admin)
+router.post('/', authenticate, requirePermission('categories:manage'), createCategory);
+
+// PUT /api/v1/categories/:id - Update / move category (admin)
+router.put('/:id', authenticate, requirePermission('categories:manage'), updateCategory);
+
+// DELETE /api/v1/categories/:id - Delete empty category (admin)
+router.delete('/:id', authenticate, requirePermission('categories:manage'), deleteCategory);
+
+export default router;
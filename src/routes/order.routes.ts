@@ -8,6 +8,11 @@ import {
   updateOrderStatus
 } from '../controllers/order.controller';
 import authenticate from '../middlewares/authenticate';
+import {
+  requirePermission,
+  requireScope,
+  requireVerifiedEmail
+} from '../middlewares/authorize';
 
 const router = Router();
 
@@ -15,22 +20,22 @@ const router = Router();
 router.use(authenticate);
 
 // POST /api/v1/orders - Create order from cart
-router.post('/', createOrder);
+router.post('/', requireScope('orders:write'), requireVerifiedEmail, createOrder);
 
 // GET /api/v1/orders - Get user's orders
-router.get('/', getUserOrders);
+router.get('/', requireScope('orders:read'), getUserOrders);
 
 // GET /api/v1/orders/:id - Get specific order
-router.get('/:id', getOrderById);
+router.get('/:id', requireScope('orders:read'), getOrderById);
 
 // PUT /api/v1/orders/:id/cancel - Cancel order
-router.put('/:id/cancel', cancelOrder);
+router.put('/:id/cancel', requireScope('orders:write'), cancelOrder);
 
-// Admin routes (would need admin middleware in real app)
+// Admin routes (staff and admins only)
 // GET /api/v1/orders/admin/all - Get all orders (admin)
-router.get('/admin/all', getAllOrders);
+router.get('/admin/all', requirePermission('orders:read_all'), getAllOrders);
 
 // PUT /api/v1/orders/admin/:id/status - Update order status (admin)
-router.put('/admin/:id/status', updateOrderStatus);
+router.put('/admin/:id/status', requirePermission('orders:update_status'), updateOrderStatus);
 
 export default router;
\ No newline at end of file
@@ -2,28 +2,176 @@ import { Router } from "express";
 import {
   getAllProducts,
   getProductById,
+  searchProducts,
+  suggestProducts,
+  importProducts,
+  exportProducts,
+  getArchivedProducts,
+  restoreProduct,
   createProduct,
   updateProduct,
   deleteProduct,
+  getPriceHistory,
 } from "../controllers/product.controller";
+import {
+  addProductImages,
+  deleteProductImage,
+  reorderProductImages,
+  setPrimaryProductImage,
+  updateProductImage,
+  migrateProductImages,
+} from "../controllers/productImage.controller";
+import { adjustStock, getStockMovements } from "../controllers/inventory.controller";
+import {
+  subscribeToStock,
+  unsubscribeFromStock,
+} from "../controllers/stockSubscription.controller";
+import {
+  getProductReviews,
+  createReview,
+  updateMyReview,
+} from "../controllers/review.controller";
 import authenticate from "../middlewares/authenticate";
-import { upload } from "../config/multer.config";
+import { requirePermission, rejectApiKeys } from "../middlewares/authorize";
+import { imageUpload, csvUpload } from "../config/multer.config";
+import { MAX_PRODUCT_IMAGES } from "../models/product.model";
 
 const router = Router();
 
 // GET /products - Get all products
 router.get("/", getAllProducts);
 
-// GET /products/:id - Get single product
+// GET /products/search - Full-text search (same filters as the listing)
+router.get("/search", searchProducts);
+
+// GET /products/suggest - Autocomplete
+router.get("/suggest", suggestProducts);
+
+// GET /products/export - Download the catalog as CSV
+router.get(
+  "/export",
+  authenticate,
+  requirePermission("products:update"),
+  exportProducts
+);
+
+// POST /products/import - Bulk create/update from CSV (dry-run by default)
+router.post(
+  "/import",
+  authenticate,
+  requirePermission("products:create", "products:update"),
+  csvUpload.single("file"),
+  importProducts
+);
+
+// POST /products/images/migrate - Convert old plain-URL images (admin)
+router.post(
+  "/images/migrate",
+  authenticate,
+  requirePermission("products:update"),
+  migrateProductImages
+);
+
+// GET /products/archived - Deleted products (admin)
+router.get(
+  "/archived",
+  authenticate,
+  requirePermission("products:delete"),
+  getArchivedProducts
+);
+
+// GET /products/:id - Get single product (archived ones too, for order history)
 router.get("/:id", getProductById);
 
 // POST /products - Create new product with images
-router.post("/", upload.array('images', 5), createProduct);
+router.post(
+  "/",
+  authenticate,
+  requirePermission("products:create"),
+  imageUpload.array('images', MAX_PRODUCT_IMAGES),
+  createProduct
+);
 
 // PUT /products/:id - Update product with images
-router.put("/:id", authenticate, upload.array('images', 5), updateProduct);
+router.put(
+  "/:id",
+  authenticate,
+  requirePermission("products:update"),
+  imageUpload.array('images', MAX_PRODUCT_IMAGES),
+  updateProduct
+);
+
+// Single image management (the image limit applies to the whole product)
+const canUpdateProducts = [authenticate, requirePermission("products:update")];
+
+// POST /products/:id/images - Append images
+router.post(
+  "/:id/images",
+  canUpdateProducts,
+  imageUpload.array('images', MAX_PRODUCT_IMAGES),
+  addProductImages
+);
+
+// PUT /products/:id/images/order - Reorder images
+router.put("/:id/images/order", canUpdateProducts, reorderProductImages);
+
+// PUT /products/:id/images/:imageId/primary - Make an image the primary one
+router.put("/:id/images/:imageId/primary", canUpdateProducts, setPrimaryProductImage);
+
+// PATCH /products/:id/images/:imageId - Set alt text
+router.patch("/:id/images/:imageId", canUpdateProducts, updateProductImage);
+
+// DELETE /products/:id/images/:imageId - Delete an image
+router.delete("/:id/images/:imageId", canUpdateProducts, deleteProductImage);
+
+// GET /products/:id/price-history - Price changes, and the price at a given time
+router.get(
+  "/:id/price-history",
+  authenticate,
+  requirePermission("products:update"),
+  getPriceHistory
+);
+
+// POST /products/:id/inventory/adjustments - Change stock through the ledger
+router.post(
+  "/:id/inventory/adjustments",
+  authenticate,
+  requirePermission("inventory:manage"),
+  adjustStock
+);
+
+// GET /products/:id/inventory/movements - Stock movement report
+router.get(
+  "/:id/inventory/movements",
+  authenticate,
+  requirePermission("inventory:manage"),
+  getStockMovements
+);
+
+// POST /products/:id/stock-subscriptions - Email me when back in stock
+router.post("/:id/stock-subscriptions", authenticate, rejectApiKeys, subscribeToStock);
+
+// DELETE /products/:id/stock-subscriptions - Cancel that
+router.delete("/:id/stock-subscriptions", authenticate, rejectApiKeys, unsubscribeFromStock);
+
+// GET /products/:id/reviews - Reviews of a product
+router.get("/:id/reviews", getProductReviews);
+
+// POST /products/:id/reviews - Review a purchased product
+router.post("/:id/reviews", authenticate, rejectApiKeys, createReview);
+
+// PUT /products/:id/reviews/mine - Edit your review
+router.put("/:id/reviews/mine", authenticate, rejectApiKeys, updateMyReview);
+
+// POST /products/:id/restore - Bring an archived product back
+router.post(
+  "/:id/restore",
+  authenticate,
+  requirePermission("products:delete"),
+  restoreProduct
+);
 
-// DELETE /products/:id - Delete product
-router.delete("/:id", deleteProduct);
+// DELETE /products/:id - Delete (archive) product
+router.delete("/:id", authenticate, requirePermission("products:delete"), deleteProduct);
 
 export default router;
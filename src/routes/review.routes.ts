@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  getAllReviews,
+  hideReview,
+  unhideReview
+} from '../controllers/review.controller';
+import authenticate from '../middlewares/authenticate';
+import { requirePermission } from '../middlewares/authorize';
+
+const router = Router();
+
+// Review moderation (product review routes live under /products/:id/reviews)
+router.use(authenticate, requirePermission('reviews:moderate'));
+
+// GET /api/v1/reviews - All reviews, filterable by status/product/rating
+router.get('/', getAllReviews);
+
+// PUT /api/v1/reviews/:id/hide - Hide a review
+router.put('/:id/hide', hideReview);
+
+// PUT /api/v1/reviews/:id/unhide - Show a hidden review again
+router.put('/:id/unhide', unhideReview);
+
+export default router;
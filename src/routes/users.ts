@@ -4,13 +4,23 @@ import {
   deleteUserById,
   getAllUsers,
   getUserById,
+  updateUserById,
+  updateUserRole,
+  unlockUser,
+  suspendUser,
+  reactivateUser,
 } from "../controllers/users.controller";
+import authenticate from "../middlewares/authenticate";
+import { requirePermission } from "../middlewares/authorize";
 
 const userRouter = express.Router();
 
 //  endpoint
 
-// Get all users, get single user by id , update user, and delete
+// User management is restricted to accounts with the users:manage permission
+userRouter.use(authenticate, requirePermission("users:manage"));
+
+// Get all users (paginated, searchable), get single user by id , update user, and delete
 
 userRouter.get("/", getAllUsers);
 
@@ -19,6 +29,21 @@ userRouter.get("/:id", getUserById);
 // create
 userRouter.post("/", createUser);
 
+// update profile fields
+userRouter.patch("/:id", updateUserById);
+
+// change role and extra permissions
+userRouter.put("/:id/role", updateUserRole);
+
+// lift a login lockout
+userRouter.post("/:id/unlock", unlockUser);
+
+// suspend / reactivate an account
+userRouter.post("/:id/suspend", suspendUser);
+
+userRouter.post("/:id/reactivate", reactivateUser);
+
+// delete (removes cart, anonymizes order history)
 userRouter.delete("/:id", deleteUserById);
 
 export default userRouter;
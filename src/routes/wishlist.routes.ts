@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import {
+  getWishlists,
+  createWishlist,
+  getWishlist,
+  renameWishlist,
+  deleteWishlist,
+  addWishlistItem,
+  removeWishlistItem,
+  moveWishlistItemToCart,
+  shareWishlist,
+  unshareWishlist,
+  getSharedWishlist
+} from '../controllers/wishlist.controller';
+import authenticate from '../middlewares/authenticate';
+import { rejectApiKeys } from '../middlewares/authorize';
+
+const router = Router();
+
+// GET /api/v1/wishlists/shared/:token - Public read-only view of a shared wishlist
+router.get('/shared/:token', getSharedWishlist);
+
+// Everything else is the user's own wishlists (a real login, not an API key)
+router.use(authenticate, rejectApiKeys);
+
+// GET /api/v1/wishlists - Get the user's wishlists
+router.get('/', getWishlists);
+
+// POST /api/v1/wishlists - Create a wishlist
+router.post('/', createWishlist);
+
+// GET /api/v1/wishlists/:id - Get a wishlist
+router.get('/:id', getWishlist);
+
+// PATCH /api/v1/wishlists/:id - Rename a wishlist
+router.patch('/:id', renameWishlist);
+
+// DELETE /api/v1/wishlists/:id - Delete a wishlist
+router.delete('/:id', deleteWishlist);
+
+// POST /api/v1/wishlists/:id/items - Add a product
+router.post('/:id/items', addWishlistItem);
+
+// DELETE /api/v1/wishlists/:id/items/:itemId - Remove an item
+router.delete('/:id/items/:itemId', removeWishlistItem);
+
+// POST /api/v1/wishlists/:id/items/:itemId/move-to-cart - Move an item into the cart
+router.post('/:id/items/:itemId/move-to-cart', moveWishlistItemToCart);
+
+// POST /api/v1/wishlists/:id/share - Create (or get) the share link
+router.post('/:id/share', shareWishlist);
+
+// DELETE /api/v1/wishlists/:id/share - Revoke the share link
+router.delete('/:id/share', unshareWishlist);
+
+export default router;
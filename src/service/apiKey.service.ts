@@ -0,0 +1,48 @@
+// src/service/apiKey.service.ts
+import crypto from "crypto";
+import { ApiKey } from "../models/apiKey.model";
+import { hashToken } from "../utils/token.helper";
+
+// All keys start with this so they are easy to recognise (and to find in leaked code)
+export const API_KEY_PREFIX = "sk_";
+
+const PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Only write lastUsedAt once a minute per key to keep busy scripts cheap
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+// New random key. The raw key is returned to the user once; we keep the hash.
+export const generateApiKey = () => {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString("hex");
+  return {
+    key,
+    prefix: key.slice(0, PREFIX_LENGTH),
+    keyHash: hashToken(key),
+  };
+};
+
+// Look up a raw key and record its use. Returns null for unknown, revoked or expired keys.
+export const findActiveApiKey = async (rawKey: string, ip?: string) => {
+  const apiKey = await ApiKey.findOne({
+    keyHash: hashToken(rawKey),
+    revokedAt: { $exists: false },
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  });
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const lastUsed = apiKey.lastUsedAt?.getTime() || 0;
+  if (Date.now() - lastUsed > LAST_USED_THROTTLE_MS) {
+    ApiKey.updateOne(
+      { _id: apiKey._id },
+      { lastUsedAt: new Date(), ...(ip && { lastUsedIp: ip }) }
+    ).catch((err) => console.error("Failed to update API key usage:", err.message));
+  }
+
+  return apiKey;
+};
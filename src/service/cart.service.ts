@@ -0,0 +1,104 @@
+// src/service/cart.service.ts
+import { Types } from "mongoose";
+import { Cart, ICart, ICartItem } from "../models/cart.model";
+import { Product } from "../models/product.model";
+import { StockReservation } from "../models/stockReservation.model";
+import { resolveStockItem, getVariantName } from "./stock.service";
+import { getReservedQuantity, reserveStock, extendReservations } from "./reservation.service";
+
+// A cart line is one product, or one variant of a product
+export const isSameLine = (item: ICartItem, productId: string, variantId?: string) =>
+  item.product.toString() === productId &&
+  (item.variant?.toString() || "") === (variantId || "");
+
+// Add a product (or variant) to the user's cart, creating the cart if needed. Checks stock
+// (leaving out what other carts reserved) and reserves it. Returns an error message with
+// the HTTP status to use instead when it can't be added.
+export const addItemToCart = async (
+  userId: string,
+  productId: string,
+  variantId: string | undefined,
+  quantity: number
+): Promise<{ error: string; status: number } | { cart: ICart; reservedUntil: Date | null }> => {
+  // Check if product exists (and hasn't been deleted) and is in stock
+  const product = await Product.findOne({ _id: productId, archivedAt: null });
+  if (!product) {
+    return { error: "Product not found", status: 404 };
+  }
+
+  const stockItem = resolveStockItem(product, variantId);
+  if (stockItem.error !== undefined) {
+    return { error: stockItem.error, status: 400 };
+  }
+
+  // Stock reserved in other customers' carts can't be added
+  const reservedByOthers = await getReservedQuantity(product._id, stockItem.variant?._id, userId);
+  const available = stockItem.available - reservedByOthers;
+
+  if (available < quantity) {
+    return { error: "Product is out of stock or insufficient quantity", status: 400 };
+  }
+
+  // Find or create cart
+  let cart = await Cart.findOne({ user: userId });
+  if (!cart) {
+    cart = new Cart({ user: userId, items: [] });
+  }
+
+  const existingItem = cart.items.find((item) => isSameLine(item, productId, variantId));
+
+  if (existingItem) {
+    const newQuantity = existingItem.quantity + quantity;
+
+    if (newQuantity > available) {
+      return { error: `Only ${available} items available in stock`, status: 400 };
+    }
+
+    existingItem.quantity = newQuantity;
+    // Price at the time of adding (a sale may have started or ended since)
+    existingItem.price = stockItem.price;
+  } else {
+    cart.items.push({
+      product: product._id,
+      ...(stockItem.variant && {
+        variant: stockItem.variant._id,
+        sku: stockItem.variant.sku,
+        variantName: getVariantName(stockItem.variant),
+      }),
+      quantity,
+      price: stockItem.price,
+    });
+  }
+
+  // Hold the line's stock while it's in the cart (when reservations are enabled)
+  const line = cart.items.find((item) => isSameLine(item, productId, variantId))!;
+  const reservation = await reserveStock(userId, product._id, stockItem.variant?._id, line.quantity, stockItem.available);
+  if ("error" in reservation) {
+    return { error: reservation.error, status: 409 };
+  }
+
+  await cart.save();
+  const reservedUntil = await extendReservations(userId);
+
+  return { cart, reservedUntil };
+};
+
+// Take a product out of every cart that holds it, leaving the owner a notice, and
+// release its reservations (used when a product is archived). Returns the number of carts changed.
+export const removeProductFromCarts = async (productId: Types.ObjectId, productName: string) => {
+  const carts = await Cart.find({ "items.product": productId });
+
+  for (const cart of carts) {
+    cart.items = cart.items.filter((item) => !item.product.equals(productId));
+    cart.notices.push({
+      message: `${productName} is no longer available and was removed from your cart`,
+      product: productId,
+      createdAt: new Date(),
+    });
+    // Saved one by one so the cart total is recalculated
+    await cart.save();
+  }
+  await StockReservation.deleteMany({ product: productId });
+
+  return carts.length;
+};
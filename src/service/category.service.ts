@@ -0,0 +1,163 @@
+// src/service/category.service.ts
+import { Types } from "mongoose";
+import { Category, ICategory } from "../models/category.model";
+import { Product } from "../models/product.model";
+
+export interface CategoryTreeNode {
+  id: Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string;
+  sortOrder: number;
+  children: CategoryTreeNode[];
+}
+
+// "Running Shoes & Socks" -> "running-shoes-socks"
+export const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Slugs like "shoes" are never valid ObjectIds, but 12-character slugs would pass isValid alone
+const isObjectId = (value: string) =>
+  Types.ObjectId.isValid(value) && String(new Types.ObjectId(value)) === value;
+
+// Look a category up by id or slug
+export const findCategory = (idOrSlug: string) =>
+  isObjectId(idOrSlug)
+    ? Category.findById(idOrSlug)
+    : Category.findOne({ slug: idOrSlug.toLowerCase() });
+
+// Ids of the given categories (ids or slugs) and everything nested under them.
+// Unknown values are ignored, so an unknown category simply matches no products.
+export const getCategoryIdsWithDescendants = async (idsOrSlugs: string[]) => {
+  const ids = idsOrSlugs.filter(isObjectId);
+  const slugs = idsOrSlugs.filter((value) => !ids.includes(value)).map((slug) => slug.toLowerCase());
+
+  const roots = await Category.find({
+    $or: [{ _id: { $in: ids } }, { slug: { $in: slugs } }],
+  }).select("_id");
+  const rootIds = roots.map((category) => category._id);
+
+  const descendants = await Category.find({ ancestors: { $in: rootIds } }).select("_id");
+
+  return [...rootIds, ...descendants.map((category) => category._id)];
+};
+
+// Nest a flat list of categories, sorting siblings by sortOrder then name
+export const buildCategoryTree = (categories: ICategory[]) => {
+  const nodes = new Map<string, CategoryTreeNode>();
+  for (const category of categories) {
+    nodes.set(String(category._id), {
+      id: category._id as Types.ObjectId,
+      name: category.name,
+      slug: category.slug,
+      ...(category.description && { description: category.description }),
+      sortOrder: category.sortOrder,
+      children: [],
+    });
+  }
+
+  const roots: CategoryTreeNode[] = [];
+  for (const category of categories) {
+    const node = nodes.get(String(category._id))!;
+    const parent = category.parent && nodes.get(String(category.parent));
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sortNodes = (list: CategoryTreeNode[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    list.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+};
+
+// Re-parent a category, rewriting the ancestor path of the whole subtree.
+// Returns an error message if the move would create a cycle.
+export const moveCategory = async (category: ICategory, parentId: string | null) => {
+  let parent: ICategory | null = null;
+
+  if (parentId) {
+    parent = await Category.findById(parentId);
+    if (!parent) {
+      return { error: "Parent category not found" };
+    }
+    const categoryId = category._id as Types.ObjectId;
+    if (parent._id!.equals(categoryId) || parent.ancestors.some((id) => id.equals(categoryId))) {
+      return { error: "A category cannot be moved inside itself" };
+    }
+  }
+
+  const oldPathLength = category.ancestors.length + 1;
+  const newAncestors = parent ? [...parent.ancestors, parent._id as Types.ObjectId] : [];
+
+  category.parent = parent ? (parent._id as Types.ObjectId) : null;
+  category.ancestors = newAncestors;
+
+  // Descendants keep the part of their path below this category
+  const descendants = await Category.find({ ancestors: category._id });
+  for (const descendant of descendants) {
+    descendant.ancestors = [
+      ...newAncestors,
+      category._id as Types.ObjectId,
+      ...descendant.ancestors.slice(oldPathLength),
+    ];
+  }
+
+  await Promise.all([category.save(), ...descendants.map((descendant) => descendant.save())]);
+  return { category };
+};
+
+// One-off migration from the old free-text `category` strings.
+// Values are grouped by slug, so "Shoes" and "shoes " end up in the same category;
+// `mappings` sends other spellings to an existing slug (e.g. { "Footwear": "shoes" }).
+// Safe to run more than once: products that already point at a category are skipped.
+export const migrateStringCategories = async (mappings: Record<string, string> = {}) => {
+  const values: string[] = await Product.collection.distinct("category", {
+    category: { $type: "string" },
+  });
+
+  const created: string[] = [];
+  const unresolved: string[] = [];
+  let migratedProducts = 0;
+
+  for (const value of values) {
+    const mappedSlug = mappings[value] ?? mappings[value.trim()];
+    const slug = mappedSlug ? slugify(mappedSlug) : slugify(value);
+
+    if (!slug) {
+      unresolved.push(value);
+      continue;
+    }
+
+    let category = await Category.findOne({ slug });
+    if (!category) {
+      // Named after the first value with this slug; a mapping to a slug nothing produces is unresolved
+      const source = values.find((other) => slugify(other) === slug);
+      if (!source) {
+        unresolved.push(value);
+        continue;
+      }
+      category = await Category.create({ name: source.trim(), slug });
+      created.push(slug);
+    }
+
+    const result = await Product.collection.updateMany(
+      { category: value },
+      {
+        $set: {
+          category: category._id,
+          categoryName: category.name,
+        },
+      }
+    );
+    migratedProducts += result.modifiedCount;
+  }
+
+  return { createdCategories: created, migratedProducts, unresolved };
+};
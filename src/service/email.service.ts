@@ -4,7 +4,11 @@ import { transporter } from "../config/email.config";
 
 
 
-export const welcomeEmailTemplate = (firstName: string, email: string) => {
+export const welcomeEmailTemplate = (
+  firstName: string,
+  email: string,
+  verifyUrl: string
+) => {
   return `
     <!DOCTYPE html>
     <html>
@@ -35,8 +39,9 @@ export const welcomeEmailTemplate = (firstName: string, email: string) => {
           <h2>Hello ${firstName}!</h2>
           <p>Thank you for registering with us. We're excited to have you on board.</p>
           <p>Your account has been successfully created with the email: <strong>${email}</strong></p>
-          <p>You can now start exploring our platform and enjoy all the features we offer.</p>
-          <a href="https://yourapp.com/login" class="button">Get Started</a>
+          <p>Please confirm your email address to activate all the features we offer.</p>
+          <a href="${verifyUrl}" class="button">Verify Email</a>
+          <p>If the button doesn't work, copy this link into your browser:<br>${verifyUrl}</p>
         </div>
         <div class="footer">
           <p>© 2024 Your Company. All rights reserved.</p>
@@ -49,6 +54,279 @@ export const welcomeEmailTemplate = (firstName: string, email: string) => {
 };
 
 
+export const passwordResetEmailTemplate = (
+  firstName: string,
+  resetUrl: string,
+  expiresInMinutes: number
+) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2196F3; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .button { 
+          display: inline-block; 
+          padding: 10px 20px; 
+          background: #2196F3; 
+          color: white; 
+          text-decoration: none; 
+          border-radius: 5px; 
+          margin: 20px 0;
+        }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Reset Your Password</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>We received a request to reset the password for your account.</p>
+          <p>Click the button below to choose a new password. This link expires in ${expiresInMinutes} minutes and can only be used once.</p>
+          <a href="${resetUrl}" class="button">Reset Password</a>
+          <p>If the button doesn't work, copy this link into your browser:<br>${resetUrl}</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+          <p>If you didn't request a password reset, please ignore this email. Your password will not change.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const verificationEmailTemplate = (
+  firstName: string,
+  verifyUrl: string
+) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4CAF50; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .button { 
+          display: inline-block; 
+          padding: 10px 20px; 
+          background: #4CAF50; 
+          color: white; 
+          text-decoration: none; 
+          border-radius: 5px; 
+          margin: 20px 0;
+        }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Verify Your Email</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>Please confirm your email address by clicking the button below.</p>
+          <a href="${verifyUrl}" class="button">Verify Email</a>
+          <p>If the button doesn't work, copy this link into your browser:<br>${verifyUrl}</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+          <p>If you didn't create this account, please ignore this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const accountLockedEmailTemplate = (
+  firstName: string,
+  lockedUntil: Date,
+  ip: string
+) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #f44336; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Account Temporarily Locked</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>We noticed several failed attempts to sign in to your account, the latest from IP address <strong>${ip}</strong>.</p>
+          <p>To protect you, sign-in has been locked until <strong>${lockedUntil.toUTCString()}</strong>.</p>
+          <p>If this was you, simply wait and try again. If it wasn't, we recommend resetting your password once the lock expires.</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+          <p>Contact support if you need your account unlocked sooner.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const emailChangeTemplate = (
+  firstName: string,
+  newEmail: string,
+  confirmUrl: string
+) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2196F3; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .button { 
+          display: inline-block; 
+          padding: 10px 20px; 
+          background: #2196F3; 
+          color: white; 
+          text-decoration: none; 
+          border-radius: 5px; 
+          margin: 20px 0;
+        }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Confirm Your New Email</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>You asked to change the email address on your account to <strong>${newEmail}</strong>.</p>
+          <p>Click the button below to confirm. Your current email stays active until you do.</p>
+          <a href="${confirmUrl}" class="button">Confirm Email Change</a>
+          <p>If the button doesn't work, copy this link into your browser:<br>${confirmUrl}</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+          <p>If you didn't request this change, please ignore this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const lowStockAlertTemplate = (
+  productName: string,
+  quantity: number,
+  threshold: number,
+  stockLines: { label: string; quantity: number }[]
+) => {
+  const rows = stockLines
+    .map((line) => `<tr><td>${line.label}</td><td style="text-align: right;">${line.quantity}</td></tr>`)
+    .join("");
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #FF9800; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        table { width: 100%; border-collapse: collapse; }
+        td { padding: 4px 0; border-bottom: 1px solid #ddd; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Low Stock Alert</h1>
+        </div>
+        <div class="content">
+          <h2>${productName}</h2>
+          <p>Only <strong>${quantity}</strong> left in stock, below the alert threshold of ${threshold}.</p>
+          ${rows ? `<table>${rows}</table>` : ""}
+          <p>Please restock soon to avoid running out.</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+          <p>You receive this email because you are on the inventory team list.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const backInStockTemplate = (
+  firstName: string,
+  productName: string,
+  productUrl: string
+) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4CAF50; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .button { 
+          display: inline-block; 
+          padding: 10px 20px; 
+          background: #4CAF50; 
+          color: white; 
+          text-decoration: none; 
+          border-radius: 5px; 
+          margin: 20px 0;
+        }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Back in Stock!</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>Good news: <strong>${productName}</strong> is available again.</p>
+          <p>Stock can run out quickly, so don't wait too long.</p>
+          <a href="${productUrl}" class="button">View Product</a>
+          <p>If the button doesn't work, copy this link into your browser:<br>${productUrl}</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+          <p>You asked us to let you know when this product is back. We won't email you about it again.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
 
 
 interface EmailOptions {
@@ -76,11 +354,90 @@ const sendEmail = async (options: EmailOptions): Promise<void> => {
 
 export const sendWelcomeEmail = async (
   email: string,
-  firstName: string
+  firstName: string,
+  verifyUrl: string
 ): Promise<void> => {
   await sendEmail({
     to: email,
     subject: "Welcome to Our Platform!",
-    html: welcomeEmailTemplate(firstName, email),
+    html: welcomeEmailTemplate(firstName, email, verifyUrl),
   });
-};
\ No newline at end of file
+};
+
+export const sendVerificationEmail = async (
+  email: string,
+  firstName: string,
+  verifyUrl: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: "Verify your email address",
+    html: verificationEmailTemplate(firstName, verifyUrl),
+  });
+};
+
+export const sendPasswordResetEmail = async (
+  email: string,
+  firstName: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: "Reset your password",
+    html: passwordResetEmailTemplate(firstName, resetUrl, expiresInMinutes),
+  });
+};
+
+export const sendAccountLockedEmail = async (
+  email: string,
+  firstName: string,
+  lockedUntil: Date,
+  ip: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: "Your account has been temporarily locked",
+    html: accountLockedEmailTemplate(firstName, lockedUntil, ip),
+  });
+};
+
+export const sendEmailChangeEmail = async (
+  newEmail: string,
+  firstName: string,
+  confirmUrl: string
+): Promise<void> => {
+  await sendEmail({
+    to: newEmail,
+    subject: "Confirm your new email address",
+    html: emailChangeTemplate(firstName, newEmail, confirmUrl),
+  });
+};
+
+// `to` can be several addresses separated by commas
+export const sendLowStockAlertEmail = async (
+  to: string,
+  productName: string,
+  quantity: number,
+  threshold: number,
+  stockLines: { label: string; quantity: number }[]
+): Promise<void> => {
+  await sendEmail({
+    to,
+    subject: `Low stock: ${productName} (${quantity} left)`,
+    html: lowStockAlertTemplate(productName, quantity, threshold, stockLines),
+  });
+};
+
+export const sendBackInStockEmail = async (
+  email: string,
+  firstName: string,
+  productName: string,
+  productUrl: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: `${productName} is back in stock`,
+    html: backInStockTemplate(firstName, productName, productUrl),
+  });
+};
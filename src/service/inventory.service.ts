@@ -0,0 +1,83 @@
+// src/service/inventory.service.ts
+import { ClientSession, Types } from "mongoose";
+import type { IProduct } from "../models/product.model";
+import { InventoryMovement, MovementReason } from "../models/inventoryMovement.model";
+
+type VariantId = string | Types.ObjectId | null | undefined;
+
+export interface MovementDetails {
+  reason: MovementReason;
+  actor?: string | Types.ObjectId | undefined;
+  order?: Types.ObjectId | undefined;
+  note?: string | undefined;
+}
+
+export type StockLevels = Map<string, { quantity: number; sku?: string | undefined }>;
+
+const toMovement = (
+  product: IProduct,
+  variant: string,
+  sku: string | undefined,
+  quantityChange: number,
+  quantityAfter: number,
+  { reason, actor, order, note }: MovementDetails
+) => ({
+  product: product._id,
+  ...(variant && { variant }),
+  ...(sku && { sku }),
+  reason,
+  quantityChange,
+  quantityAfter,
+  ...(actor && { actor }),
+  ...(order && { order }),
+  ...(note && { note }),
+});
+
+// Ledger entry for a change already applied to the product (or variant) in memory
+export const buildMovement = (
+  product: IProduct,
+  variantId: VariantId,
+  quantityChange: number,
+  details: MovementDetails
+) => {
+  const variant = variantId ? product.variants.id(variantId) : null;
+  const stock = variant || product;
+  return toMovement(product, variant ? String(variant._id) : "", stock.sku, quantityChange, stock.quantity, details);
+};
+
+// Stock of a product without variants, or of each of its variants.
+// Keyed by variant id ("" for the product itself).
+export const getStockLevels = (product: IProduct): StockLevels =>
+  new Map(
+    product.variants.length === 0
+      ? [["", { quantity: product.quantity, sku: product.sku }]]
+      : product.variants.map((variant) => [String(variant._id), { quantity: variant.quantity, sku: variant.sku }])
+  );
+
+// Ledger entries for whatever an edit did to the stock levels (pass an empty map for a
+// new product). A removed variant goes to 0, a new one comes from 0.
+export const diffStockLevels = (product: IProduct, previous: StockLevels, details: MovementDetails) => {
+  const current = getStockLevels(product);
+
+  return [...new Set([...previous.keys(), ...current.keys()])].flatMap((key) => {
+    const before = previous.get(key);
+    const after = current.get(key);
+    const change = (after?.quantity ?? 0) - (before?.quantity ?? 0);
+
+    return change === 0
+      ? []
+      : [toMovement(product, key, (after || before)!.sku, change, after?.quantity ?? 0, details)];
+  });
+};
+
+export type StockMovement = ReturnType<typeof buildMovement>;
+
+// Write ledger entries, in the same session as the stock change when there is one
+export const recordStockMovements = async (
+  movements: StockMovement[],
+  session?: ClientSession
+) => {
+  if (movements.length > 0) {
+    await InventoryMovement.insertMany(movements, session ? { session } : {});
+  }
+};
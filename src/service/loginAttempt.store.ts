@@ -0,0 +1,121 @@
+// src/service/loginAttempt.store.ts
+import { LoginAttempt, ILoginAttempt } from "../models/loginAttempt.model";
+
+export interface AttemptRecord {
+  failures: number;
+  windowStartedAt: number; // ms timestamp of the first failure in the current window
+  lockedUntil?: number; // ms timestamp, set while the key is locked out
+  lockouts: number;
+}
+
+// Where failed-login counters live. Swap implementations with setLoginAttemptStore().
+export interface LoginAttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  set(key: string, record: AttemptRecord, ttlMs: number): Promise<void>;
+  // Count one failure in a single atomic step and return the updated record. A window
+  // older than `windowMs` starts over at 1; an expired record starts over completely.
+  increment(key: string, windowMs: number, ttlMs: number): Promise<AttemptRecord>;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps counters in process memory - for tests and single-instance development
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+  // Synchronous, so increment() reads and writes without yielding in between
+  private read(key: string) {
+    const entry = this.records.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return { ...entry.record };
+  }
+
+  async get(key: string) {
+    return this.read(key);
+  }
+
+  async set(key: string, record: AttemptRecord, ttlMs: number) {
+    this.records.set(key, { record: { ...record }, expiresAt: Date.now() + ttlMs });
+  }
+
+  async increment(key: string, windowMs: number, ttlMs: number) {
+    const now = Date.now();
+    const existing = this.read(key);
+
+    const record: AttemptRecord =
+      existing && now - existing.windowStartedAt <= windowMs
+        ? { ...existing, failures: existing.failures + 1 }
+        : { failures: 1, windowStartedAt: now, lockouts: existing?.lockouts || 0 };
+
+    this.records.set(key, { record, expiresAt: now + ttlMs });
+    return { ...record };
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+const toRecord = (doc: ILoginAttempt): AttemptRecord => ({
+  failures: doc.failures,
+  windowStartedAt: doc.windowStartedAt.getTime(),
+  lockouts: doc.lockouts,
+  ...(doc.lockedUntil && { lockedUntil: doc.lockedUntil.getTime() }),
+});
+
+// Keeps counters in MongoDB so every app instance shares them
+export class MongoLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string) {
+    const doc = await LoginAttempt.findOne({ key, expiresAt: { $gt: new Date() } });
+    return doc && toRecord(doc);
+  }
+
+  async set(key: string, record: AttemptRecord, ttlMs: number) {
+    await LoginAttempt.updateOne(
+      { key },
+      {
+        failures: record.failures,
+        windowStartedAt: new Date(record.windowStartedAt),
+        lockouts: record.lockouts,
+        expiresAt: new Date(Date.now() + ttlMs),
+        ...(record.lockedUntil
+          ? { lockedUntil: new Date(record.lockedUntil) }
+          : { $unset: { lockedUntil: 1 } }),
+      },
+      { upsert: true }
+    );
+  }
+
+  async increment(key: string, windowMs: number, ttlMs: number) {
+    const now = new Date();
+
+    // Drop a record the TTL monitor hasn't removed yet, and start a new window once the
+    // old one is over. Both are conditional, so concurrent calls reset a key only once.
+    await LoginAttempt.deleteOne({ key, expiresAt: { $lte: now } });
+    await LoginAttempt.updateOne(
+      { key, windowStartedAt: { $lt: new Date(now.getTime() - windowMs) } },
+      { failures: 0, windowStartedAt: now }
+    );
+
+    const doc = await LoginAttempt.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: { expiresAt: new Date(now.getTime() + ttlMs) },
+        $setOnInsert: { windowStartedAt: now, lockouts: 0 },
+      },
+      { upsert: true, new: true }
+    );
+
+    return toRecord(doc);
+  }
+
+  async delete(key: string) {
+    await LoginAttempt.deleteOne({ key });
+  }
+}
@@ -0,0 +1,138 @@
+// src/service/loginProtection.service.ts
+import {
+  AttemptRecord,
+  LoginAttemptStore,
+  MemoryLoginAttemptStore,
+  MongoLoginAttemptStore,
+} from "./loginAttempt.store";
+
+// Failed logins allowed per account / per IP inside one window before locking
+const MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || "5");
+const MAX_IP_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES || "20");
+const FAILURE_WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || "15");
+// First lockout length; each further lockout doubles it, up to MAX_LOCKOUT_MINUTES
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15");
+const MAX_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_MAX_LOCKOUT_MINUTES || "1440");
+// Failures before responses start slowing down, and the delay cap
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+// How long a key is remembered after its last failure (keeps the lockout count)
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+let store: LoginAttemptStore =
+  process.env.LOGIN_ATTEMPT_STORE === "memory"
+    ? new MemoryLoginAttemptStore()
+    : new MongoLoginAttemptStore();
+
+// Plug in a different counter store (e.g. MemoryLoginAttemptStore in tests)
+export const setLoginAttemptStore = (newStore: LoginAttemptStore) => {
+  store = newStore;
+};
+
+const accountKey = (email: string) => `account:${String(email).toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+const secondsUntil = (timestamp: number) =>
+  Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+
+interface LoginCheck {
+  allowed: boolean;
+  reason?: "account" | "ip";
+  retryAfterSeconds?: number;
+  delayMs: number; // Progressive delay to apply before answering
+}
+
+// Decide whether a login attempt may proceed, and how long to slow it down
+export const checkLoginAllowed = async (
+  email: string,
+  ip: string
+): Promise<LoginCheck> => {
+  const [account, address] = await Promise.all([
+    store.get(accountKey(email)),
+    store.get(ipKey(ip)),
+  ]);
+  const now = Date.now();
+
+  if (address?.lockedUntil && address.lockedUntil > now) {
+    return {
+      allowed: false,
+      reason: "ip",
+      retryAfterSeconds: secondsUntil(address.lockedUntil),
+      delayMs: 0,
+    };
+  }
+
+  if (account?.lockedUntil && account.lockedUntil > now) {
+    return {
+      allowed: false,
+      reason: "account",
+      retryAfterSeconds: secondsUntil(account.lockedUntil),
+      delayMs: 0,
+    };
+  }
+
+  const failures = account ? activeFailures(account, now) : 0;
+  const delayMs =
+    failures > FREE_ATTEMPTS
+      ? Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS)
+      : 0;
+
+  return { allowed: true, delayMs };
+};
+
+// Failures only count inside the current window
+const activeFailures = (record: AttemptRecord, now: number) =>
+  now - record.windowStartedAt > FAILURE_WINDOW_MINUTES * 60 * 1000
+    ? 0
+    : record.failures;
+
+// Count one failure against a key and lock it when it reaches the limit. The count
+// comes from the store's atomic increment, so simultaneous failures can't all read
+// the same count and slip past the limit.
+// Returns the lock expiry when this failure triggered the lockout (only the failure that
+// reached the limit does, so the owner is told once).
+const recordFailure = async (key: string, maxFailures: number) => {
+  const record = await store.increment(key, FAILURE_WINDOW_MINUTES * 60 * 1000, RECORD_TTL_MS);
+  if (record.failures < maxFailures) return undefined;
+
+  const now = Date.now();
+  const minutes = Math.min(
+    LOCKOUT_MINUTES * 2 ** record.lockouts,
+    MAX_LOCKOUT_MINUTES
+  );
+  const lockedUntil = now + minutes * 60 * 1000;
+
+  await store.set(
+    key,
+    { failures: 0, windowStartedAt: now, lockedUntil, lockouts: record.lockouts + 1 },
+    RECORD_TTL_MS
+  );
+  return record.failures === maxFailures ? lockedUntil : undefined;
+};
+
+// Register a failed login. Tells the caller when the account just got locked
+// so the owner can be notified.
+export const registerLoginFailure = async (email: string, ip: string) => {
+  const [accountLockedUntil] = await Promise.all([
+    recordFailure(accountKey(email), MAX_ACCOUNT_FAILURES),
+    recordFailure(ipKey(ip), MAX_IP_FAILURES),
+  ]);
+
+  return accountLockedUntil ? { accountLockedUntil: new Date(accountLockedUntil) } : {};
+};
+
+// A successful login clears the account counters (IP counters keep running,
+// so one valid account can't be used to reset an attacker's budget)
+export const registerLoginSuccess = async (email: string) => {
+  await store.delete(accountKey(email));
+};
+
+// Admin unlock: clear the account's counters and lockout history
+export const unlockAccount = async (email: string) => {
+  await store.delete(accountKey(email));
+};
+
+export const unlockIp = async (ip: string) => {
+  await store.delete(ipKey(ip));
+};
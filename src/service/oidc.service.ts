@@ -0,0 +1,172 @@
+// src/service/oidc.service.ts
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OidcProviderConfig } from "../config/oidc.config";
+import { OidcState } from "../models/oidcState.model";
+import { hashToken } from "../utils/token.helper";
+
+// How long the user has to finish logging in at the provider
+const STATE_EXPIRES_MINUTES = 10;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// Identity claims we use from a verified ID token
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, crypto.KeyObject>();
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(
+      `OIDC request to ${url} failed with ${response.status}: ${body.error_description || body.error || "unknown error"}`
+    );
+  }
+
+  return body;
+};
+
+const discover = async (provider: OidcProviderConfig): Promise<DiscoveryDocument> => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) {
+    return cached.document;
+  }
+
+  const issuer = provider.issuer.replace(/\/$/, "");
+  const document = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  discoveryCache.set(provider.issuer, { document, fetchedAt: Date.now() });
+  return document;
+};
+
+// Find the provider's signing key by `kid`, refetching the JWKS once for rotated keys
+const getSigningKey = async (jwksUri: string, kid?: string) => {
+  const cacheKey = `${jwksUri}#${kid}`;
+  const cached = jwksCache.get(cacheKey);
+  if (cached) return cached;
+
+  const { keys = [] } = await fetchJson(jwksUri);
+  for (const jwk of keys) {
+    if (jwk.use && jwk.use !== "sig") continue;
+    jwksCache.set(`${jwksUri}#${jwk.kid}`, crypto.createPublicKey({ key: jwk, format: "jwk" }));
+  }
+
+  const key = jwksCache.get(cacheKey);
+  if (!key) {
+    throw new Error("No matching signing key found for ID token");
+  }
+  return key;
+};
+
+// Step 1: build the provider login URL and remember state, nonce and PKCE verifier
+export const createAuthorizationUrl = async (provider: OidcProviderConfig) => {
+  const { authorization_endpoint } = await discover(provider);
+
+  const state = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(
+    crypto.createHash("sha256").update(codeVerifier).digest()
+  );
+
+  await OidcState.create({
+    stateHash: hashToken(state),
+    provider: provider.name,
+    codeVerifier,
+    nonce,
+    expiresAt: new Date(Date.now() + STATE_EXPIRES_MINUTES * 60 * 1000),
+  });
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: (provider.scopes || ["openid", "email", "profile"]).join(" "),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+
+  return `${authorization_endpoint}?${params.toString()}`;
+};
+
+// Step 2: exchange the code for tokens and verify the ID token.
+// Returns null when the state is unknown, expired, already used or for another provider.
+export const completeAuthorization = async (
+  provider: OidcProviderConfig,
+  code: string,
+  state: string
+): Promise<OidcIdentity | null> => {
+  // State is single use
+  const pending = await OidcState.findOneAndDelete({
+    stateHash: hashToken(state),
+    provider: provider.name,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!pending) {
+    return null;
+  }
+
+  const discovery = await discover(provider);
+
+  const tokenResponse = await fetchJson(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: pending.codeVerifier,
+      ...(provider.clientSecret && { client_secret: provider.clientSecret }),
+    }),
+  });
+
+  if (!tokenResponse.id_token) {
+    throw new Error("OIDC provider did not return an ID token");
+  }
+
+  const header = jwt.decode(tokenResponse.id_token, { complete: true })?.header;
+  const signingKey = await getSigningKey(discovery.jwks_uri, header?.kid);
+
+  // Checks signature, expiry, issuer and audience
+  const claims = jwt.verify(tokenResponse.id_token, signingKey, {
+    issuer: discovery.issuer,
+    audience: provider.clientId,
+    algorithms: ["RS256", "RS384", "RS512", "ES256", "ES384", "ES512", "PS256"],
+  }) as jwt.JwtPayload;
+
+  if (claims.nonce !== pending.nonce) {
+    throw new Error("ID token nonce does not match");
+  }
+
+  if (!claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return {
+    subject: claims.sub,
+    email: claims.email ? String(claims.email).toLowerCase() : undefined,
+    emailVerified: claims.email_verified === true || claims.email_verified === "true",
+    firstName: claims.given_name || claims.name?.split(" ")[0],
+    lastName: claims.family_name || claims.name?.split(" ").slice(1).join(" ") || undefined,
+  } as OidcIdentity;
+};
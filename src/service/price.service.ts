@@ -0,0 +1,101 @@
+// src/service/price.service.ts
+import { ClientSession, Types } from "mongoose";
+import type { IProduct, ISalePrice } from "../models/product.model";
+import { PriceHistory, PriceChangeSource } from "../models/priceHistory.model";
+
+// Anything with a regular price and maybe a sale: a product, a variant or a history entry
+interface Priced {
+  price?: number | undefined;
+  sale?: ISalePrice | null | undefined;
+}
+
+// Whether a sale applies at the given moment (start inclusive, end exclusive)
+export const isSaleActive = (sale: ISalePrice | null | undefined, at = new Date()) =>
+  Boolean(sale) && (!sale!.startsAt || sale!.startsAt <= at) && (!sale!.endsAt || at < sale!.endsAt);
+
+// The price a customer pays at `at`. A variant with its own price has its own sale;
+// otherwise it follows the product's price and sale.
+export const getEffectivePrice = (
+  product: Priced & { price: number },
+  variant?: Priced | null,
+  at = new Date()
+) => {
+  const source = variant && variant.price !== undefined && variant.price !== null ? variant : product;
+  const regularPrice = source.price!;
+  const onSale = isSaleActive(source.sale, at);
+
+  return {
+    price: onSale ? source.sale!.price : regularPrice,
+    // The regular price, shown crossed out while on sale
+    compareAtPrice: onSale ? regularPrice : undefined,
+  };
+};
+
+// getEffectivePrice() of a product as an aggregation expression, so queries can filter
+// and sort on what customers pay rather than the regular price
+export const effectivePriceExpression = (at = new Date()) => ({
+  $cond: [
+    {
+      $and: [
+        { $ne: [{ $ifNull: ["$sale.price", null] }, null] },
+        { $or: [{ $eq: [{ $ifNull: ["$sale.startsAt", null] }, null] }, { $lte: ["$sale.startsAt", at] }] },
+        { $or: [{ $eq: [{ $ifNull: ["$sale.endsAt", null] }, null] }, { $gt: ["$sale.endsAt", at] }] },
+      ],
+    },
+    "$sale.price",
+    "$price",
+  ],
+});
+
+// The pricing of a product and each of its variants, to compare before and after a change
+export type PriceSnapshot = { variant?: Types.ObjectId } & Priced;
+
+export const getPriceSnapshots = (product: IProduct): PriceSnapshot[] => [
+  { price: product.price, sale: product.sale },
+  ...product.variants.map((variant) => ({ variant: variant._id, price: variant.price, sale: variant.sale })),
+];
+
+const snapshotKey = ({ price, sale }: Priced) =>
+  JSON.stringify([price ?? null, sale?.price ?? null, sale?.startsAt ?? null, sale?.endsAt ?? null]);
+
+// Log every product/variant whose pricing differs from `previous` (pass [] for a new
+// product). Run after the product is saved, in the same session when there is one.
+export const recordPriceChanges = async (
+  changes: { previous: PriceSnapshot[]; product: IProduct }[],
+  { source, changedBy }: { source: PriceChangeSource; changedBy?: string | undefined },
+  session?: ClientSession
+) => {
+  const entries = changes.flatMap(({ previous, product }) => {
+    const previousKeys = new Map(previous.map((snapshot) => [String(snapshot.variant ?? ""), snapshotKey(snapshot)]));
+
+    return getPriceSnapshots(product)
+      .filter((snapshot) => previousKeys.get(String(snapshot.variant ?? "")) !== snapshotKey(snapshot))
+      .map(({ variant, price, sale }) => ({
+        product: product._id,
+        ...(variant && { variant }),
+        ...(price !== undefined && price !== null && { price }),
+        ...(sale && { sale: { price: sale.price, startsAt: sale.startsAt, endsAt: sale.endsAt } }),
+        source,
+        ...(changedBy && { changedBy }),
+      }));
+  });
+
+  if (entries.length > 0) {
+    await PriceHistory.insertMany(entries, session ? { session } : {});
+  }
+};
+
+// What a product (or variant) cost at a past moment, from the price history.
+// Null when the history doesn't go back that far.
+export const getPriceAt = async (productId: string, variantId: string | undefined, at: Date) => {
+  const latestBefore = (variant: string | null) =>
+    PriceHistory.findOne({ product: productId, variant, createdAt: { $lte: at } }).sort({ createdAt: -1 });
+
+  const [productEntry, variantEntry] = await Promise.all([
+    latestBefore(null),
+    variantId ? latestBefore(variantId) : null,
+  ]);
+
+  if (!productEntry || productEntry.price === undefined) return null;
+  return getEffectivePrice({ price: productEntry.price, sale: productEntry.sale }, variantEntry, at);
+};
@@ -0,0 +1,265 @@
+// src/service/productCsv.service.ts
+import mongoose from "mongoose";
+import { once } from "events";
+import type { Writable } from "stream";
+import { Product, IProduct } from "../models/product.model";
+import { Category, ICategory } from "../models/category.model";
+import { parseCsvRecords, toCsvRow } from "../utils/csv.helper";
+import { deleteStoredFiles } from "./storage.service";
+import { getImageFileUrls } from "./productImage.service";
+import { getPriceSnapshots, recordPriceChanges, PriceSnapshot } from "./price.service";
+import {
+  getStockLevels,
+  diffStockLevels,
+  recordStockMovements,
+  StockLevels,
+  StockMovement,
+} from "./inventory.service";
+import { getAvailableStock, AvailableStock } from "./stock.service";
+import { sendStockAlerts } from "./stockAlert.service";
+
+// Columns shared by import and export, so an export can be edited and re-imported.
+// `category` is a category slug (or id); `images` are URLs separated by "|".
+export const PRODUCT_CSV_COLUMNS = ["sku", "name", "description", "price", "category", "quantity", "images"];
+
+const IMAGE_SEPARATOR = "|";
+
+export interface ImportRowResult {
+  row: number;
+  action: "create" | "update";
+  sku?: string;
+  name?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  applied: boolean;
+  summary: { total: number; create: number; update: number; failed: number };
+  rows: ImportRowResult[];
+}
+
+// Parse a numeric cell; undefined when empty, an error message when invalid
+const parseNumberCell = (value: string, column: string, integer = false) => {
+  if (value === "") return { value: undefined };
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || (integer && !Number.isInteger(number))) {
+    return { error: `${column} must be a non-negative ${integer ? "whole " : ""}number` };
+  }
+  return { value: number };
+};
+
+// Validate every row, then (unless dry-run) upsert them all in one transaction.
+// Rows match an existing product by SKU, or by exact name when there is no SKU.
+// Empty cells leave the existing value unchanged. Nothing is written if any row fails.
+// Returns an error message instead when the file itself is unusable.
+// Price and stock changes are logged to their histories as made by `changedBy`.
+export const importProductsCsv = async (
+  text: string,
+  dryRun: boolean,
+  changedBy?: string
+): Promise<{ error: string } | { report: ImportReport }> => {
+  const { columns, records } = parseCsvRecords(text);
+
+  const unknownColumns = columns.filter((column) => !PRODUCT_CSV_COLUMNS.includes(column));
+  if (!columns.includes("name") || unknownColumns.length > 0) {
+    return {
+      error:
+        `CSV header must include "name" and may only use: ${PRODUCT_CSV_COLUMNS.join(", ")}` +
+        (unknownColumns.length ? ` (unknown: ${unknownColumns.join(", ")})` : ""),
+    };
+  }
+
+  // Load everything the rows can refer to up front instead of querying per row
+  const skus = records.map(({ values }) => values.sku).filter((sku): sku is string => Boolean(sku));
+  const names = records.map(({ values }) => values.name).filter((name): name is string => Boolean(name));
+  const [categories, productsBySku, productsByName] = await Promise.all([
+    Category.find(),
+    Product.find({ sku: { $in: skus } }),
+    // Deleted products are only looked up by SKU, which stays taken (see below)
+    Product.find({ name: { $in: names }, archivedAt: null }),
+  ]);
+
+  const categoryByKey = new Map<string, ICategory>();
+  for (const category of categories) {
+    categoryByKey.set(category.slug, category);
+    categoryByKey.set(String(category._id), category);
+  }
+
+  const skuIndex = new Map(productsBySku.map((product) => [product.sku!, product]));
+  const nameIndex = new Map<string, IProduct[]>();
+  for (const product of productsByName) {
+    nameIndex.set(product.name, [...(nameIndex.get(product.name) || []), product]);
+  }
+
+  const seen = new Map<string, number>();
+  const rowByProduct = new Map<IProduct, number>();
+  const documents: IProduct[] = [];
+  const previousPrices = new Map<IProduct, PriceSnapshot[]>();
+  const previousStock = new Map<IProduct, StockLevels>();
+  const previousAvailable = new Map<string, AvailableStock>(); // By product id, for back-in-stock emails
+  const replacedImages: string[] = [];
+  const rows: ImportRowResult[] = [];
+
+  for (const { row, values } of records) {
+    const errors: string[] = [];
+    const { sku, name } = values;
+
+    // Same product twice in one file
+    const key = sku ? `sku:${sku}` : `name:${name}`;
+    if (seen.has(key)) {
+      errors.push(`Duplicate of row ${seen.get(key)}`);
+    }
+    seen.set(key, row);
+
+    // Find the product to update
+    let product: IProduct | undefined = sku ? skuIndex.get(sku) : undefined;
+    if (!product && name) {
+      const namesakes = (nameIndex.get(name) || []).filter((candidate) => !sku || !candidate.sku);
+      if (namesakes.length > 1) {
+        errors.push(`${namesakes.length} products are named "${name}"; add a SKU to choose one`);
+      }
+      product = namesakes.length === 1 ? namesakes[0] : undefined;
+    }
+
+    // Re-importing an old export must not edit (and keep hiding) a deleted product
+    if (product?.archivedAt) {
+      errors.push(`SKU ${sku} belongs to a deleted product; restore it or use another SKU`);
+    }
+
+    // e.g. one row matched by SKU and another by the same product's name
+    if (product && rowByProduct.has(product)) {
+      errors.push(`Updates the same product as row ${rowByProduct.get(product)}`);
+    }
+    if (product) rowByProduct.set(product, row);
+
+    const price = parseNumberCell(values.price ?? "", "price");
+    const quantity = parseNumberCell(values.quantity ?? "", "quantity", true);
+    for (const result of [price, quantity]) {
+      if (result.error) errors.push(result.error);
+    }
+
+    let category: ICategory | undefined;
+    if (values.category) {
+      category = categoryByKey.get(values.category.toLowerCase()) || categoryByKey.get(values.category);
+      if (!category) errors.push(`Unknown category "${values.category}"`);
+    }
+
+    const document = product || new Product({ inStock: true });
+    previousPrices.set(document, product ? getPriceSnapshots(product) : []);
+    previousStock.set(document, product ? getStockLevels(product) : new Map());
+    if (product) previousAvailable.set(String(product._id), getAvailableStock(product));
+    if (product && values.images) {
+      replacedImages.push(...product.images.flatMap(getImageFileUrls));
+    }
+    document.set({
+      ...(sku && { sku }),
+      ...(name && { name }),
+      ...(values.description && { description: values.description }),
+      ...(price.value !== undefined && { price: price.value }),
+      ...(quantity.value !== undefined && { quantity: quantity.value }),
+      ...(category && { category: category._id, categoryName: category.name }),
+      ...(values.images && {
+        images: values.images
+          .split(IMAGE_SEPARATOR)
+          .map((url) => url.trim())
+          .filter(Boolean)
+          // An image the product already has keeps its alt text and resized sizes
+          .map((url) => product?.images.find((image) => image.url === url)?.toObject() ?? { url }),
+      }),
+    });
+
+    // Same rules as createProduct/updateProduct
+    try {
+      await document.validate();
+    } catch (error: any) {
+      if (error.name !== "ValidationError") throw error;
+      errors.push(...Object.values(error.errors).map((err: any) => err.message));
+    }
+
+    rows.push({
+      row,
+      action: product ? "update" : "create",
+      ...(sku && { sku }),
+      ...(name && { name }),
+      ...(errors.length > 0 && { errors }),
+    });
+    documents.push(document);
+  }
+
+  const failed = rows.filter((result) => result.errors).length;
+  const summary = {
+    total: rows.length,
+    create: rows.filter((result) => result.action === "create").length,
+    update: rows.filter((result) => result.action === "update").length,
+    failed,
+  };
+
+  if (dryRun || failed > 0) {
+    return { report: { dryRun, applied: false, summary, rows } };
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  let movements: StockMovement[] = [];
+
+  try {
+    await Product.bulkSave(documents, { session });
+    await recordPriceChanges(
+      documents.map((document) => ({ previous: previousPrices.get(document)!, product: document })),
+      { source: "import", changedBy },
+      session
+    );
+    movements = documents.flatMap((document) => {
+      const previous = previousStock.get(document)!;
+      return diffStockLevels(document, previous, {
+        reason: previous.size === 0 ? "restock" : "adjustment",
+        actor: changedBy,
+        note: previous.size === 0 ? "Initial stock (CSV import)" : "CSV import",
+      });
+    });
+    await recordStockMovements(movements, session);
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  // Files of images the import replaced (keeping any URL still listed)
+  const keptImages = new Set(documents.flatMap((document) => document.images.flatMap(getImageFileUrls)));
+  await deleteStoredFiles(replacedImages.filter((url) => !keptImages.has(url)));
+  sendStockAlerts(movements, previousAvailable);
+
+  return { report: { dryRun, applied: true, summary, rows } };
+};
+
+// Write the whole catalog as CSV, one product at a time
+export const writeProductsCsv = async (output: Writable) => {
+  const categories = await Category.find().select("slug");
+  const slugById = new Map(categories.map((category) => [String(category._id), category.slug]));
+
+  output.write(toCsvRow(PRODUCT_CSV_COLUMNS));
+
+  const cursor = Product.find({ archivedAt: null }).sort({ _id: 1 }).cursor();
+  for await (const product of cursor) {
+    // Client went away
+    if (output.destroyed) break;
+
+    const row = toCsvRow([
+      product.sku,
+      product.name,
+      product.description,
+      product.price,
+      slugById.get(String(product.category)) ?? product.category,
+      product.quantity,
+      product.images.map((image) => image.url).join(IMAGE_SEPARATOR),
+    ]);
+
+    // Respect backpressure so a slow client doesn't buffer the whole catalog in memory
+    if (!output.write(row)) {
+      await Promise.race([once(output, "drain"), once(output, "close")]);
+    }
+  }
+};
@@ -0,0 +1,123 @@
+// src/service/productImage.service.ts
+import path from "path";
+import sharp from "sharp";
+import { Product, IProductImage, IProductImageSizes, legacyImageId } from "../models/product.model";
+import { getStorageDriver, discardUploads, deleteStoredFiles } from "./storage.service";
+
+// Longest side (px) of each derivative. Smaller images are never enlarged.
+export const IMAGE_SIZE_WIDTHS: Record<keyof IProductImageSizes, number> = {
+  thumbnail: 200,
+  medium: 800,
+  large: 1600,
+};
+
+const DERIVATIVE_QUALITY = 80;
+
+export type StoredProductImage = Pick<IProductImage, "url" | "sizes">;
+
+// Every stored file of an image: the full-size one and its derivatives
+export const getImageFileUrls = (image: StoredProductImage) => [
+  image.url,
+  ...(image.sizes
+    ? (Object.keys(IMAGE_SIZE_WIDTHS) as (keyof IProductImageSizes)[]).map((size) => image.sizes![size])
+    : []),
+];
+
+// Re-encode the upload without metadata (EXIF, GPS, camera details) and create the
+// WebP derivatives. The orientation from EXIF is applied first so nothing ends up sideways.
+const processImage = async (file: Express.Multer.File) => {
+  const image = sharp(file.path || file.buffer, {
+    autoOrient: true,
+    animated: file.mimetype === "image/gif",
+  });
+
+  const [original, ...derivatives] = await Promise.all([
+    image.clone().toBuffer(),
+    ...Object.values(IMAGE_SIZE_WIDTHS).map((width) =>
+      image
+        .clone()
+        .resize({ width, height: width, fit: "inside", withoutEnlargement: true })
+        .webp({ quality: DERIVATIVE_QUALITY })
+        .toBuffer()
+    ),
+  ]);
+
+  return { original: original!, derivatives };
+};
+
+// Process and store uploaded product images. Like storeUploadedFiles, anything already
+// stored is deleted again if one image fails, and the temporary uploads are always removed.
+export const storeProductImages = async (
+  files: Express.Multer.File[],
+  folder: string
+): Promise<StoredProductImage[]> => {
+  const driver = getStorageDriver();
+  const stored: string[] = [];
+
+  const save = async (source: Buffer, filename: string) => {
+    const { url } = await driver.save(source, { folder, filename });
+    stored.push(url);
+    return url;
+  };
+
+  const storeImage = async (file: Express.Multer.File) => {
+    const { original, derivatives } = await processImage(file);
+    const filename = file.filename || `${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
+    const { name, ext } = path.parse(filename);
+    const sizes = Object.keys(IMAGE_SIZE_WIDTHS) as (keyof IProductImageSizes)[];
+
+    const results = await Promise.allSettled([
+      save(original, `${name}${ext}`),
+      ...sizes.map((size, i) => save(derivatives[i]!, `${name}-${size}.webp`)),
+    ]);
+    const failed = results.find((result) => result.status === "rejected");
+    if (failed) throw (failed as PromiseRejectedResult).reason;
+
+    const [url, ...sizeUrls] = results.map((result) => (result as PromiseFulfilledResult<string>).value);
+    return {
+      url: url!,
+      sizes: Object.fromEntries(sizes.map((size, i) => [size, sizeUrls[i]])) as unknown as IProductImageSizes,
+    };
+  };
+
+  try {
+    const results = await Promise.allSettled(files.map(storeImage));
+
+    const failed = results.find((result) => result.status === "rejected");
+    if (failed) {
+      await deleteStoredFiles(stored);
+      throw (failed as PromiseRejectedResult).reason;
+    }
+
+    return results.map((result) => (result as PromiseFulfilledResult<StoredProductImage>).value);
+  } finally {
+    await discardUploads(files);
+  }
+};
+
+// One-off migration of images stored as plain URL strings into image subdocuments, keeping
+// the ids they were already served with (see legacyImageId) so clients' ids stay valid.
+// Safe to run more than once: products without string images are skipped.
+export const migrateStringImages = async () => {
+  const products = await Product.collection
+    .find({ images: { $type: "string" } }, { projection: { images: 1 } })
+    .toArray();
+
+  let migratedProducts = 0;
+  for (const { _id, images } of products) {
+    const result = await Product.collection.updateOne(
+      // Skipped if the images changed in the meantime; the next run picks it up
+      { _id, images },
+      {
+        $set: {
+          images: images.map((image: any, index: number) =>
+            typeof image === "string" ? { _id: legacyImageId(image, index), url: image } : image
+          ),
+        },
+      }
+    );
+    migratedProducts += result.modifiedCount;
+  }
+
+  return { migratedProducts, skipped: products.length - migratedProducts };
+};
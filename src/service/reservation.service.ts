@@ -0,0 +1,135 @@
+// src/service/reservation.service.ts
+import { Types } from "mongoose";
+import { StockReservation } from "../models/stockReservation.model";
+
+type Id = string | Types.ObjectId;
+type VariantId = Id | null | undefined;
+
+// How long adding to cart holds the stock. Reservations are off when unset or 0.
+const RESERVATION_MINUTES = Number(process.env.CART_RESERVATION_MINUTES) || 0;
+
+export const reservationsEnabled = () => RESERVATION_MINUTES > 0;
+
+const nextExpiry = () => new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000);
+
+const active = () => ({ expiresAt: { $gt: new Date() } });
+
+const lineFilter = (userId: Id, productId: Id, variantId?: VariantId) => ({
+  product: productId,
+  variant: variantId || null,
+  user: userId,
+});
+
+// Key of a product (or variant) in the maps returned by getReservedQuantities
+export const reservationKey = (productId: Id, variantId?: VariantId) =>
+  `${productId}:${variantId || ""}`;
+
+// Stock held by active reservations, per product/variant. Leave out a user's
+// own reservations with `excludeUserId` (they don't limit that user).
+export const getReservedQuantities = async (productIds: Id[], excludeUserId?: Id) => {
+  const reserved = new Map<string, number>();
+  if (!reservationsEnabled() || productIds.length === 0) return reserved;
+
+  const totals = await StockReservation.aggregate([
+    {
+      $match: {
+        product: { $in: productIds.map((id) => new Types.ObjectId(String(id))) },
+        ...active(),
+        ...(excludeUserId && { user: { $ne: new Types.ObjectId(String(excludeUserId)) } }),
+      },
+    },
+    { $group: { _id: { product: "$product", variant: "$variant" }, quantity: { $sum: "$quantity" } } },
+  ]);
+
+  for (const { _id, quantity } of totals) {
+    reserved.set(reservationKey(_id.product, _id.variant), quantity);
+  }
+  return reserved;
+};
+
+export const getReservedQuantity = async (productId: Id, variantId?: VariantId, excludeUserId?: Id) =>
+  (await getReservedQuantities([productId], excludeUserId)).get(reservationKey(productId, variantId)) ?? 0;
+
+// Hold `quantity` (the whole cart line) for the user. `stock` is what the product or
+// variant has in total. Fails when reservations would add up to more than that, e.g.
+// when another customer reserved the last units at the same moment.
+export const reserveStock = async (
+  userId: Id,
+  productId: Id,
+  variantId: VariantId,
+  quantity: number,
+  stock: number
+): Promise<{ error: string } | { expiresAt: Date | null }> => {
+  if (!reservationsEnabled()) return { expiresAt: null };
+
+  const filter = lineFilter(userId, productId, variantId);
+  const expiresAt = nextExpiry();
+  const previous = await StockReservation.findOneAndUpdate(
+    filter,
+    { quantity, expiresAt },
+    { upsert: true }
+  );
+
+  // Check after writing, so two customers racing for the last unit can't both get it
+  const reserved = await getReservedQuantity(productId, variantId);
+  if (reserved > stock) {
+    if (previous && previous.expiresAt > new Date()) {
+      await StockReservation.updateOne(filter, { quantity: previous.quantity, expiresAt: previous.expiresAt });
+    } else {
+      await StockReservation.deleteOne(filter);
+    }
+    return { error: "Not enough stock left: the rest is reserved in other customers' carts" };
+  }
+
+  return { expiresAt };
+};
+
+// Push back the expiry of all of a user's active reservations (any cart activity).
+// Returns the new expiry, or null when the user holds nothing.
+export const extendReservations = async (userId: Id) => {
+  if (!reservationsEnabled()) return null;
+
+  const expiresAt = nextExpiry();
+  const { modifiedCount } = await StockReservation.updateMany(
+    { user: userId, ...active() },
+    { expiresAt }
+  );
+  return modifiedCount > 0 ? expiresAt : null;
+};
+
+// Release a cart line's reservation. Without a variant, every line of the product goes.
+export const releaseReservation = async (userId: Id, productId: Id, variantId?: VariantId) => {
+  await StockReservation.deleteMany(
+    variantId ? lineFilter(userId, productId, variantId) : { user: userId, product: productId }
+  );
+};
+
+export const releaseAllReservations = async (userId: Id) => {
+  await StockReservation.deleteMany({ user: userId });
+};
+
+// The catalog's view of stock: `availableQuantity` is what's left after active
+// reservations, for the product and each variant. Takes documents or lean objects.
+export const withAvailableQuantities = async (products: any[]) => {
+  const reserved = await getReservedQuantities(products.map((product) => product._id));
+
+  const available = (stock: { quantity: number; inStock: boolean }, key: string) =>
+    stock.inStock ? Math.max(0, stock.quantity - (reserved.get(key) ?? 0)) : 0;
+
+  return products.map((product) => {
+    const data = typeof product.toJSON === "function" ? product.toJSON() : product;
+    const variants = (data.variants || []).map((variant: any) => ({
+      ...variant,
+      availableQuantity: available(variant, reservationKey(data._id, variant._id)),
+    }));
+
+    return {
+      ...data,
+      availableQuantity:
+        variants.length > 0
+          ? variants.reduce((total: number, variant: any) => total + variant.availableQuantity, 0)
+          : available(data, reservationKey(data._id)),
+      variants,
+    };
+  });
+};
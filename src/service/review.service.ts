@@ -0,0 +1,32 @@
+// src/service/review.service.ts
+import { Types } from "mongoose";
+import { Review } from "../models/review.model";
+import { Order } from "../models/order.model";
+import { Product } from "../models/product.model";
+
+// Only customers who received the product may review it
+export const hasPurchasedProduct = async (userId: string, productId: string) =>
+  Boolean(
+    await Order.exists({
+      user: userId,
+      status: "delivered",
+      "items.product": productId,
+    })
+  );
+
+// Recalculate a product's average rating and review count from its visible reviews.
+// Called after every change that adds, edits, hides or removes a review.
+export const refreshProductRating = async (productId: string | Types.ObjectId) => {
+  const [summary] = await Review.aggregate([
+    { $match: { product: new Types.ObjectId(String(productId)), status: "visible" } },
+    { $group: { _id: null, average: { $avg: "$rating" }, count: { $sum: 1 } } },
+  ]);
+
+  await Product.updateOne(
+    { _id: productId },
+    {
+      ratingAverage: summary ? Math.round(summary.average * 10) / 10 : 0,
+      ratingCount: summary ? summary.count : 0,
+    }
+  );
+};
@@ -0,0 +1,89 @@
+// src/service/stock.service.ts
+import { Types } from "mongoose";
+import { IProduct, IProductVariant } from "../models/product.model";
+import { getEffectivePrice } from "./price.service";
+
+type VariantId = string | Types.ObjectId | null | undefined;
+
+// "Size: M, Color: Red"
+export const getVariantName = (variant: IProductVariant) =>
+  [...variant.options.entries()].map(([name, value]) => `${name}: ${value}`).join(", ");
+
+// Work out what a cart/order line points at: the product itself, or one of its variants.
+// Products with variants can only be bought as a specific variant.
+// `price` is what it costs right now, sale included.
+export const resolveStockItem = (product: IProduct, variantId?: VariantId) => {
+  if (product.variants.length === 0) {
+    if (variantId) {
+      return { error: "This product has no variants" };
+    }
+    return {
+      price: getEffectivePrice(product).price,
+      available: product.inStock ? product.quantity : 0,
+      label: product.name,
+    };
+  }
+
+  if (!variantId) {
+    return { error: "Please choose a variant of this product" };
+  }
+
+  const variant = product.variants.id(variantId);
+  if (!variant) {
+    return { error: "Variant not found" };
+  }
+
+  return {
+    variant,
+    price: getEffectivePrice(product, variant).price,
+    available: variant.inStock ? variant.quantity : 0,
+    label: `${product.name} (${getVariantName(variant)})`,
+  };
+};
+
+// What can be bought of a product without variants, or of each of its variants, keyed by
+// variant id ("" for the product itself). Nothing while the product is archived.
+export type AvailableStock = Map<string, number>;
+
+export const getAvailableStock = (product: IProduct): AvailableStock =>
+  new Map(
+    (product.variants.length === 0 ? [""] : product.variants.map((variant) => String(variant._id))).map((key) => {
+      const item = resolveStockItem(product, key || undefined);
+      return [key, product.archivedAt || item.error !== undefined ? 0 : item.available];
+    })
+  );
+
+// Take stock for an order line. The caller saves the product (inside its transaction).
+// `reserved` is stock held for other customers, which can't be taken.
+// Returns the line's current price.
+export const deductStock = (product: IProduct, variantId: VariantId, quantity: number, reserved = 0) => {
+  const item = resolveStockItem(product, variantId);
+
+  if (item.error !== undefined) {
+    throw new Error(`${product.name}: ${item.error}`);
+  }
+
+  if (item.available - reserved < quantity) {
+    throw new Error(`Insufficient stock for ${item.label}`);
+  }
+
+  const stock = item.variant || product;
+  stock.quantity -= quantity;
+  if (stock.quantity === 0) {
+    stock.inStock = false;
+  }
+
+  return item.price;
+};
+
+// Put stock back, e.g. when an order is cancelled. A variant that has since been
+// removed from the product has nowhere to go back to and is skipped (returns false).
+export const restoreStock = (product: IProduct, variantId: VariantId, quantity: number) => {
+  const stock = variantId ? product.variants.id(variantId) : product;
+
+  if (!stock) return false;
+
+  stock.quantity += quantity;
+  stock.inStock = true;
+  return true;
+};
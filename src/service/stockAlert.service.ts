@@ -0,0 +1,102 @@
+// src/service/stockAlert.service.ts
+import { Product, IProduct } from "../models/product.model";
+import { StockSubscription } from "../models/stockSubscription.model";
+import { IUser } from "../models/user.model";
+import { sendLowStockAlertEmail, sendBackInStockEmail } from "./email.service";
+import { getVariantName, getAvailableStock, AvailableStock } from "./stock.service";
+import type { StockMovement } from "./inventory.service";
+
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000"; // Frontend that hosts the product pages
+const DEFAULT_LOW_STOCK_THRESHOLD = Number(process.env.LOW_STOCK_THRESHOLD) || 5;
+
+export const getLowStockThreshold = (product: IProduct) =>
+  product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+
+// Email the inventory team (INVENTORY_TEAM_EMAIL, comma separated) when these movements
+// took the product from at/above its threshold to below it. Only once per crossing.
+const alertLowStock = async (product: IProduct, movements: StockMovement[]) => {
+  const threshold = getLowStockThreshold(product);
+  const before = product.quantity - movements.reduce((total, movement) => total + movement.quantityChange, 0);
+
+  if (product.archivedAt || product.quantity >= threshold || before < threshold) return;
+
+  const recipients = process.env.INVENTORY_TEAM_EMAIL;
+  if (!recipients) {
+    console.warn(`⚠️ ${product.name} is low on stock but INVENTORY_TEAM_EMAIL is not set`);
+    return;
+  }
+
+  await sendLowStockAlertEmail(
+    recipients,
+    product.name,
+    product.quantity,
+    threshold,
+    product.variants.map((variant) => ({
+      label: `${variant.sku} (${getVariantName(variant)})`,
+      quantity: variant.quantity,
+    }))
+  );
+};
+
+// Email everyone waiting for a product/variant (`variantId` "" for the product itself)
+// that just became available. Each subscription is removed before its email goes out,
+// so nobody is emailed twice.
+const notifySubscribers = async (product: IProduct, variantId: string) => {
+  const variant = variantId ? product.variants.id(variantId) : null;
+  const productName = variant ? `${product.name} (${getVariantName(variant)})` : product.name;
+  const productUrl = `${CLIENT_URL}/products/${product._id}`;
+
+  let subscription;
+  while (
+    (subscription = await StockSubscription.findOneAndDelete({
+      product: product._id,
+      variant: variantId || null,
+    }).populate<{ user: IUser | null }>("user", "email firstName"))
+  ) {
+    const user = subscription.user;
+    if (!user) continue; // Account deleted
+
+    await sendBackInStockEmail(user.email, user.firstName, productName, productUrl).catch((err) => {
+      console.error(`❌ Failed to send back in stock email to ${user.email}:`, err.message);
+    });
+  }
+};
+
+// Emails that follow committed changes: low-stock alerts for the inventory team (from the
+// stock `movements`) and back-in-stock emails for subscribers of anything that couldn't be
+// bought before and can now, e.g. restocked, switched back to in stock or restored.
+// `availableBefore` holds getAvailableStock() of each changed product from before the
+// change, keyed by product id. Call after the transaction commits, without awaiting the
+// response on it. Never throws; failures are logged.
+export const sendStockAlerts = async (
+  movements: StockMovement[],
+  availableBefore = new Map<string, AvailableStock>()
+) => {
+  if (movements.length === 0 && availableBefore.size === 0) return;
+
+  try {
+    const productIds = [
+      ...new Set([...movements.map((movement) => String(movement.product)), ...availableBefore.keys()]),
+    ];
+    const products = await Product.find({ _id: { $in: productIds } });
+
+    await Promise.all(
+      products.flatMap((product) => {
+        const productMovements = movements.filter((movement) => String(movement.product) === String(product._id));
+        const before = availableBefore.get(String(product._id));
+        const backInStock = before
+          ? [...getAvailableStock(product)]
+              .filter(([variantId, available]) => available > 0 && !((before.get(variantId) ?? 0) > 0))
+              .map(([variantId]) => variantId)
+          : [];
+
+        return [
+          alertLowStock(product, productMovements),
+          ...backInStock.map((variantId) => notifySubscribers(product, variantId)),
+        ];
+      })
+    );
+  } catch (error: any) {
+    console.error("❌ Failed to send stock alerts:", error.message);
+  }
+};
@@ -0,0 +1,107 @@
+// src/service/storage.driver.ts
+import fs from "fs/promises";
+import path from "path";
+import cloudinary from "../config/cloudinary.config";
+
+export interface StoredFile {
+  url: string; // What we save on the product and hand to clients
+}
+
+export interface SaveOptions {
+  folder: string; // e.g. "products"
+  filename: string; // Unique name without folder, e.g. "shirt-1700000000000-123.jpg"
+}
+
+// Where uploaded files end up. Swap implementations with setStorageDriver().
+export interface StorageDriver {
+  // `source` is a path to a temporary file (moved/consumed) or the file contents
+  save(source: string | Buffer, options: SaveOptions): Promise<StoredFile>;
+  delete(url: string): Promise<void>;
+  // Whether a URL points at a file this driver manages (external URLs are never deleted)
+  owns(url: string): boolean;
+}
+
+// Files on local disk, served by the app under /uploads - development and tests (no network)
+export class LocalStorageDriver implements StorageDriver {
+  constructor(
+    private rootDir = process.env.LOCAL_STORAGE_DIR || "./uploads",
+    private baseUrl = "/uploads" // Where app.ts serves rootDir
+  ) {}
+
+  async save(source: string | Buffer, { folder, filename }: SaveOptions) {
+    const directory = path.join(this.rootDir, folder);
+    const destination = path.join(directory, filename);
+    await fs.mkdir(directory, { recursive: true });
+
+    if (typeof source === "string") {
+      try {
+        await fs.rename(source, destination);
+      } catch (error: any) {
+        // rename can't cross devices (e.g. a tmpfs upload dir)
+        if (error.code !== "EXDEV") throw error;
+        await fs.copyFile(source, destination);
+        await fs.unlink(source);
+      }
+    } else {
+      await fs.writeFile(destination, source);
+    }
+
+    return { url: `${this.baseUrl}/${folder}/${filename}` };
+  }
+
+  async delete(url: string) {
+    if (!this.owns(url)) return;
+
+    // Resolve inside rootDir only, so a crafted URL can't reach other files
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, url.slice(this.baseUrl.length + 1));
+    if (!filePath.startsWith(root + path.sep)) return;
+
+    await fs.unlink(filePath).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+
+  owns(url: string) {
+    return url.startsWith(`${this.baseUrl}/`);
+  }
+}
+
+// Files on Cloudinary (production)
+export class CloudinaryStorageDriver implements StorageDriver {
+  private urlPrefix = `https://res.cloudinary.com/${process.env.CLOUDINARY_CLOUD_NAME}/`;
+
+  async save(source: string | Buffer, { folder, filename }: SaveOptions) {
+    const options = {
+      folder,
+      public_id: path.parse(filename).name,
+      resource_type: "image" as const,
+    };
+
+    if (typeof source === "string") {
+      const result = await cloudinary.uploader.upload(source, options);
+      // The temporary upload is no longer needed once it is in the cloud
+      await fs.unlink(source).catch(() => undefined);
+      return { url: result.secure_url };
+    }
+
+    const result = await new Promise<any>((resolve, reject) => {
+      cloudinary.uploader
+        .upload_stream(options, (error, uploaded) => (error ? reject(error) : resolve(uploaded)))
+        .end(source);
+    });
+    return { url: result.secure_url };
+  }
+
+  async delete(url: string) {
+    // https://res.cloudinary.com/<cloud>/image/upload/v1700000000/products/name.jpg -> products/name
+    const publicId = this.owns(url) && url.match(/\/upload\/(?:v\d+\/)?(.+)\.[^./]+$/)?.[1];
+    if (!publicId) return;
+
+    await cloudinary.uploader.destroy(publicId, { resource_type: "image" });
+  }
+
+  owns(url: string) {
+    return url.startsWith(this.urlPrefix);
+  }
+}
@@ -0,0 +1,75 @@
+// src/service/storage.service.ts
+import fs from "fs/promises";
+import path from "path";
+import type { Request } from "express";
+import {
+  StorageDriver,
+  LocalStorageDriver,
+  CloudinaryStorageDriver,
+} from "./storage.driver";
+
+// STORAGE_DRIVER=local|cloudinary. Defaults to Cloudinary when it is configured.
+const createDefaultDriver = (): StorageDriver => {
+  const driver =
+    process.env.STORAGE_DRIVER || (process.env.CLOUDINARY_CLOUD_NAME ? "cloudinary" : "local");
+  return driver === "cloudinary" ? new CloudinaryStorageDriver() : new LocalStorageDriver();
+};
+
+let driver = createDefaultDriver();
+
+// Plug in a different driver (e.g. LocalStorageDriver with a temp dir in tests)
+export const setStorageDriver = (newDriver: StorageDriver) => {
+  driver = newDriver;
+};
+
+export const getStorageDriver = () => driver;
+
+// Multer puts uploads in req.files (array) or req.file (single)
+export const getUploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.files && Array.isArray(req.files)) return req.files;
+  return req.file ? [req.file] : [];
+};
+
+// Remove multer's temporary files, e.g. when a request fails before they were stored
+export const discardUploads = async (files: Express.Multer.File[]) => {
+  await Promise.all(
+    files.filter((file) => file.path).map((file) => fs.unlink(file.path).catch(() => undefined))
+  );
+};
+
+// Store uploaded files and return their URLs. If any upload fails, the ones that
+// succeeded are deleted again so nothing is left behind.
+export const storeUploadedFiles = async (files: Express.Multer.File[], folder: string) => {
+  const results = await Promise.allSettled(
+    files.map((file) =>
+      driver.save(file.path || file.buffer, {
+        folder,
+        filename: file.filename || `${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`,
+      })
+    )
+  );
+
+  const failed = results.find((result) => result.status === "rejected");
+  if (failed) {
+    const stored = results.flatMap((result) => (result.status === "fulfilled" ? [result.value.url] : []));
+    await deleteStoredFiles(stored);
+    await discardUploads(files);
+    throw (failed as PromiseRejectedResult).reason;
+  }
+
+  return results.map((result) => (result as PromiseFulfilledResult<{ url: string }>).value.url);
+};
+
+// Best-effort delete of files we no longer reference. A failure is logged, not thrown,
+// so it never fails the request that triggered the cleanup.
+export const deleteStoredFiles = async (urls: string[]) => {
+  await Promise.all(
+    urls
+      .filter((url) => driver.owns(url))
+      .map((url) =>
+        driver.delete(url).catch((error) => {
+          console.error(`Failed to delete stored file ${url}:`, error.message);
+        })
+      )
+  );
+};
@@ -0,0 +1,128 @@
+// src/service/token.service.ts
+import crypto from "crypto";
+import { RefreshToken } from "../models/refreshToken.model";
+import { signToken } from "../utils/jwt.helper";
+import { generateToken, hashToken } from "../utils/token.helper";
+
+const REFRESH_TOKEN_EXPIRES_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_EXPIRES_DAYS || "30"
+);
+
+interface TokenUser {
+  id: string;
+  email: string;
+}
+
+// Where the request came from, stored with the refresh token for auditing
+interface ClientInfo {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+interface AuthTokens {
+  token: string; // Short-lived access token (JWT)
+  refreshToken: string; // Opaque refresh token, only its hash is stored
+}
+
+// Store a new refresh token in the given family and sign a matching access token
+const createTokens = async (
+  user: TokenUser,
+  family: string,
+  client: ClientInfo
+) => {
+  const { token: refreshToken, hashedToken } = generateToken(48);
+
+  await RefreshToken.create({
+    user: user.id,
+    tokenHash: hashedToken,
+    family,
+    expiresAt: new Date(
+      Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000
+    ),
+    ...(client.ip && { createdByIp: client.ip }),
+    ...(client.userAgent && { userAgent: client.userAgent }),
+  });
+
+  // The family id doubles as the session id so access tokens die with their session
+  const token = await signToken({ id: user.id, email: user.email, sid: family });
+
+  return { tokens: { token, refreshToken }, hashedToken };
+};
+
+// Start a new session (login/registration)
+export const issueTokens = async (
+  user: TokenUser,
+  client: ClientInfo
+): Promise<AuthTokens> => {
+  const { tokens } = await createTokens(user, crypto.randomUUID(), client);
+  return tokens;
+};
+
+// Exchange a refresh token for a new pair. Returns null when the token is
+// unknown, expired or already used. Using a token twice means it was stolen,
+// so the whole family (every token from that login) is revoked.
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  client: ClientInfo
+): Promise<AuthTokens | null> => {
+  const tokenHash = hashToken(refreshToken);
+
+  // Claim the token atomically so two parallel refreshes can't both succeed
+  const current = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false } },
+    { revokedAt: new Date() },
+    { new: true }
+  ).populate<{ user: TokenUser }>("user", "email");
+
+  if (!current) {
+    const reused = await RefreshToken.findOne({ tokenHash });
+    if (reused) {
+      console.warn(
+        `⚠️ Refresh token reuse detected for user ${reused.user}, revoking session ${reused.family}`
+      );
+      await revokeFamily(reused.family);
+    }
+    return null;
+  }
+
+  if (current.expiresAt.getTime() <= Date.now() || !current.user) {
+    return null;
+  }
+
+  const { tokens, hashedToken } = await createTokens(
+    { id: current.user.id, email: current.user.email },
+    current.family,
+    client
+  );
+
+  current.replacedBy = hashedToken;
+  await current.save();
+
+  return tokens;
+};
+
+// Revoke every token of one session (logout on one device)
+export const revokeFamily = async (family: string) => {
+  await RefreshToken.updateMany(
+    { family, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+// Revoke every session of a user (logout everywhere, password change)
+export const revokeAllUserTokens = async (userId: string) => {
+  await RefreshToken.updateMany(
+    { user: userId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+// A session is active while its latest token is neither revoked nor expired
+export const isSessionActive = async (family: string) => {
+  const active = await RefreshToken.exists({
+    family,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  return !!active;
+};
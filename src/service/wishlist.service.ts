@@ -0,0 +1,68 @@
+// src/service/wishlist.service.ts
+import crypto from "crypto";
+import { IProduct } from "../models/product.model";
+import { IWishlist } from "../models/wishlist.model";
+import { getEffectivePrice } from "./price.service";
+import { getVariantName } from "./stock.service";
+
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000"; // Frontend that shows shared wishlists
+
+const WISHLIST_PRODUCT_FIELDS = "name price sale images category inStock quantity variants archivedAt";
+
+export const generateShareToken = () => crypto.randomBytes(16).toString("hex");
+
+export const getShareUrl = (shareToken: string) => `${CLIENT_URL}/wishlists/shared/${shareToken}`;
+
+// What a wishlist item costs now compared to when it was saved, rounded to cents
+const getPriceDrop = (priceWhenAdded: number, price: number) =>
+  price < priceWhenAdded
+    ? {
+        amount: Math.round((priceWhenAdded - price) * 100) / 100,
+        percent: Math.round(((priceWhenAdded - price) / priceWhenAdded) * 100),
+      }
+    : null;
+
+// The wishlist as sent to clients: each item with its product, current pricing and
+// `priceDrop` when it got cheaper since it was saved. Items whose product was deleted
+// (or whose variant is gone) stay on the list with `available: false`.
+// The `shared` view is the read-only one behind a share link: it leaves out the owner.
+export const formatWishlist = async (wishlist: IWishlist, { shared = false } = {}) => {
+  await wishlist.populate("items.product", WISHLIST_PRODUCT_FIELDS);
+
+  const items = wishlist.items.map((item) => {
+    const product = item.product as unknown as IProduct | null;
+    const variant = product && item.variant ? product.variants.id(item.variant) : null;
+    const available = Boolean(product && !product.archivedAt && (!item.variant || variant));
+    const pricing = product && available ? getEffectivePrice(product, variant) : null;
+
+    return {
+      _id: item._id,
+      product: product && {
+        _id: product._id,
+        name: product.name,
+        images: product.images,
+        category: product.category,
+      },
+      variant: item.variant,
+      ...(variant && { sku: variant.sku, variantName: getVariantName(variant) }),
+      available,
+      inStock: available && (variant || product)!.inStock,
+      priceWhenAdded: item.priceWhenAdded,
+      currentPrice: pricing?.price ?? null,
+      compareAtPrice: pricing?.compareAtPrice ?? null,
+      priceDrop: pricing && getPriceDrop(item.priceWhenAdded, pricing.price),
+      addedAt: item.addedAt,
+    };
+  });
+
+  return {
+    _id: wishlist._id,
+    name: wishlist.name,
+    items,
+    ...(!shared && {
+      shareUrl: wishlist.shareToken ? getShareUrl(wishlist.shareToken) : null,
+      createdAt: wishlist.createdAt,
+    }),
+    updatedAt: wishlist.updatedAt,
+  };
+};
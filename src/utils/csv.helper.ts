@@ -0,0 +1,82 @@
+// Minimal RFC 4180 CSV reading and writing (quoted fields, escaped quotes, CRLF or LF)
+
+// Parse CSV text into rows of fields
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Skip a UTF-8 byte order mark (Excel adds one)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const isBlankRow = (fields: string[]) => fields.every((value) => value.trim() === "");
+
+// Parse CSV with a header row into objects keyed by (trimmed, lowercased) column name.
+// `row` is the record's row number as a spreadsheet shows it (the header is row 1).
+const parseCsvRecords = (text: string) => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((column) => column.trim().toLowerCase());
+
+  return {
+    columns,
+    records: rows
+      .map((fields, index) => ({
+        row: index + 2,
+        fields,
+      }))
+      .filter(({ fields }) => !isBlankRow(fields))
+      .map(({ row, fields }) => ({
+        row,
+        values: Object.fromEntries(
+          columns.map((column, i) => [column, (fields[i] ?? "").trim()])
+        ) as Record<string, string>,
+      })),
+  };
+};
+
+// Quote a value if it contains a delimiter, quote or newline
+const toCsvField = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: unknown[]) => values.map(toCsvField).join(",") + "\r\n";
+
+export { parseCsv, parseCsvRecords, toCsvRow };
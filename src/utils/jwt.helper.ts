@@ -5,11 +5,19 @@ dotenv.config();
 
 const secret: string = process.env.JWT_SECRET || "fallback-secret-key";
 
-const expirationTime: string = process.env.EXPIRATION_TOKEN || "7d";
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+const expirationTime: string = process.env.EXPIRATION_TOKEN || "15m";
 
 interface Info {
   id: string;
   email: string;
+  sid?: string; // Session (refresh token family) the token belongs to
+}
+
+// What we get back after verifying (payload + standard claims)
+interface DecodedToken extends Info {
+  iat: number;
+  exp: number;
 }
 
 //  function to sign
@@ -27,7 +35,35 @@ const signToken = async (info: Info) => {
 // function to verify
 
 const verify = async (token: string) => {
-  return jwt.verify(token, secret as string) as Info;
+  return jwt.verify(token, secret as string) as DecodedToken;
+};
+
+// Short-lived tokens for one step of a multi-step flow (e.g. 2FA at login).
+// They carry no session id, so `authenticate` never accepts them as access tokens.
+
+type ChallengePurpose = "2fa-login" | "2fa-setup";
+
+interface ChallengeInfo {
+  id: string;
+  purpose: ChallengePurpose;
+}
+
+const signChallengeToken = async (info: ChallengeInfo, expiresIn = "5m") => {
+  return jwt.sign(info, secret as string, { expiresIn } as jwt.SignOptions);
 };
 
-export { signToken, verify };
+// Throws if the token is invalid, expired or issued for a different purpose
+const verifyChallengeToken = async (
+  token: string,
+  purpose: ChallengePurpose
+) => {
+  const decoded = jwt.verify(token, secret as string) as ChallengeInfo;
+  if (decoded.purpose !== purpose) {
+    throw new Error("Challenge token issued for a different purpose");
+  }
+  return decoded;
+};
+
+export { signToken, verify, signChallengeToken, verifyChallengeToken };
+
+export type { DecodedToken, ChallengePurpose };
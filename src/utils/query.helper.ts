@@ -0,0 +1,34 @@
+// Helpers for list endpoints (pagination, search)
+
+const MAX_LIMIT = 100;
+
+// Read page/limit from the query string (same defaults as the order listings)
+const getPagination = (query: Record<string, any>, defaultLimit = 10) => {
+  const page = Math.max(parseInt(query.page as string) || 1, 1);
+  const limit = Math.min(
+    Math.max(parseInt(query.limit as string) || defaultLimit, 1),
+    MAX_LIMIT
+  );
+  return { page, limit, skip: (page - 1) * limit };
+};
+
+// `pagination` block returned alongside list data
+const buildPagination = (page: number, limit: number, totalItems: number) => ({
+  currentPage: page,
+  totalPages: Math.ceil(totalItems / limit),
+  totalItems,
+  itemsPerPage: limit,
+});
+
+// Escape user input before putting it in a RegExp
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Parse a date query param, returning undefined for missing or invalid values
+const parseDate = (value: unknown) => {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export { getPagination, buildPagination, escapeRegex, parseDate };
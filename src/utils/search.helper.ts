@@ -0,0 +1,141 @@
+import { escapeRegex } from "./query.helper";
+
+// Helpers for product search: tokenizing, typo-tolerant matching and highlighting
+
+const MAX_TERMS = 10;
+// Longer terms get no typo tolerance: the fuzzy regex grows with the square of the length
+const MAX_FUZZY_TERM_LENGTH = 32;
+const SNIPPET_LENGTH = 160;
+
+// Split a query into lowercase words, dropping duplicates and punctuation
+const tokenize = (value: string) => [
+  ...new Set(
+    value
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+  ),
+].slice(0, MAX_TERMS);
+
+// How many typos we forgive in a term: none for very short words, more for longer ones
+const allowedEdits = (term: string) =>
+  term.length < 4 || term.length > MAX_FUZZY_TERM_LENGTH ? 0 : term.length < 8 ? 1 : 2;
+
+// Edit distance counting swapped neighbours as one typo (optimal string alignment),
+// giving up early once it is above `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2]! + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+};
+
+// How well a single word matches a query term (0 = no match, 1 = exact)
+const matchWord = (word: string, term: string) => {
+  if (word === term) return 1;
+  // Prefixes cover partial words and simple plurals ("phone" / "phones")
+  if (word.startsWith(term) || (word.length >= 3 && term.startsWith(word))) return 0.8;
+
+  const max = allowedEdits(term);
+  if (max === 0) return 0;
+  const distance = editDistance(word, term, max);
+  return distance <= max ? 0.6 - 0.1 * distance : 0;
+};
+
+// Best match score of `term` anywhere in `text`
+const matchText = (text: string | undefined, term: string) => {
+  if (!text) return 0;
+  return Math.max(0, ...tokenize(text).map((word) => matchWord(word, term)));
+};
+
+// Regex matching one of the words within `allowedEdits` of `term`.
+// Used to find candidates when an exact text search finds nothing.
+const fuzzyPattern = (term: string) => {
+  const alternatives = [escapeRegex(term)];
+
+  if (allowedEdits(term) > 0) {
+    for (let i = 0; i < term.length; i++) {
+      const before = escapeRegex(term.slice(0, i));
+      alternatives.push(`${before}.${escapeRegex(term.slice(i + 1))}`); // substitution
+      alternatives.push(`${before}${escapeRegex(term.slice(i + 1))}`); // deletion
+      alternatives.push(`${before}.${escapeRegex(term.slice(i))}`); // insertion
+      if (i < term.length - 1) {
+        // transposition
+        alternatives.push(`${before}${escapeRegex(term[i + 1]! + term[i]!)}${escapeRegex(term.slice(i + 2))}`);
+      }
+    }
+  }
+
+  return new RegExp(alternatives.join("|"), "i");
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Wrap words matching any term in <mark>...</mark>. The rest of the text is HTML escaped.
+const highlight = (text: string, terms: string[]) =>
+  text
+    .split(/([\p{L}\p{N}]+)/u)
+    .map((part) => {
+      const lower = part.toLowerCase();
+      const isMatch = lower && terms.some((term) => matchWord(lower, term) > 0);
+      return isMatch ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part);
+    })
+    .join("");
+
+// Short excerpt of a long text around its first matching word, highlighted
+const highlightSnippet = (text: string, terms: string[]) => {
+  if (text.length <= SNIPPET_LENGTH) return highlight(text, terms);
+
+  const words = text.split(/([\p{L}\p{N}]+)/u);
+  let offset = 0;
+  let firstMatch = 0;
+  for (const part of words) {
+    if (terms.some((term) => matchWord(part.toLowerCase(), term) > 0)) {
+      firstMatch = offset;
+      break;
+    }
+    offset += part.length;
+  }
+
+  // Start and end on word boundaries
+  let start = Math.max(0, firstMatch - SNIPPET_LENGTH / 4);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space === -1 ? firstMatch : Math.min(space + 1, firstMatch);
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  return (
+    (start > 0 ? "…" : "") +
+    highlight(text.slice(start, end), terms) +
+    (end < text.length ? "…" : "")
+  );
+};
+
+export { MAX_FUZZY_TERM_LENGTH, tokenize, allowedEdits, matchText, fuzzyPattern, highlight, highlightSnippet };
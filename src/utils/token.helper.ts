@@ -0,0 +1,14 @@
+import crypto from "crypto";
+
+// Hash a random token before storing it so a database leak doesn't expose usable tokens
+const hashToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+// Generate a random token to send to the user, plus the hash we store
+const generateToken = (bytes = 32) => {
+  const token = crypto.randomBytes(bytes).toString("hex");
+  return { token, hashedToken: hashToken(token) };
+};
+
+export { generateToken, hashToken };